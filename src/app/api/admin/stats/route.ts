@@ -0,0 +1,59 @@
+// NetPick API - Admin Stats Endpoint
+// GET /api/admin/stats - Upstream usage, quota and cache numbers (requires ADMIN_API_TOKEN)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+import { usageTracker } from '@/lib/services/usageTracker';
+import { streamingAvailabilityService } from '@/lib/services/streamingAvailability';
+import { catalogCache } from '@/lib/services/catalogCache';
+import { randomPickerService } from '@/lib/services/randomPicker';
+import { historyStore } from '@/lib/services/historyStore';
+import { roomStore } from '@/lib/services/roomStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  try {
+    const response = {
+      success: true,
+      data: {
+        usage: usageTracker.getStats(),
+        circuit: streamingAvailabilityService.getCircuitStats(),
+        cache: catalogCache.getMetadata(),
+        picker: randomPickerService.getStats(),
+        history: await historyStore.getStats(),
+        rooms: await roomStore.getStats(),
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      }
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('[AdminStats] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to collect stats',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,28 +2,27 @@
 // GET /api/countries - List of supported countries and their streaming services
 
 import { NextResponse } from 'next/server';
-import { SUPPORTED_COUNTRIES } from '@/lib/types/netflix';
+import { SUPPORTED_SERVICES } from '@/lib/types/netflix';
+import { countryCatalog } from '@/lib/services/countryCatalog';
+import { getListCacheControl } from '@/lib/services/cachedList';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 export async function GET() {
   try {
-    const countries = Object.entries(SUPPORTED_COUNTRIES).map(([code, name]) => ({
-      code,
-      name,
-      flag: getFlagEmoji(code),
-      services: ['netflix'] // Currently only Netflix supported
-    }));
+    const countries = await countryCatalog.getCountries();
+    const catalogStats = countryCatalog.getStats();
 
     const response = {
       success: true,
       data: {
         countries,
         defaultCountry: 'us',
-        supportedServices: ['netflix'],
+        supportedServices: Object.entries(SUPPORTED_SERVICES).map(([id, name]) => ({ id, name })),
         metadata: {
           totalCountries: countries.length,
+          source: catalogStats.source,
           timestamp: new Date().toISOString()
         }
       }
@@ -32,7 +31,7 @@ export async function GET() {
     return NextResponse.json(response, {
       headers: {
         'Content-Type': 'application/json',
-        'Cache-Control': 'public, max-age=3600' // Cache for 1 hour
+        'Cache-Control': getListCacheControl(catalogStats.source)
       }
     });
 
@@ -49,15 +48,3 @@ export async function GET() {
     );
   }
 }
-
-function getFlagEmoji(countryCode: string): string {
-  const flags: Record<string, string> = {
-    us: '🇺🇸',
-    fr: '🇫🇷',
-    ca: '🇨🇦',
-    gb: '🇬🇧',
-    de: '🇩🇪'
-  };
-
-  return flags[countryCode] || '🌍';
-}
\ No newline at end of file
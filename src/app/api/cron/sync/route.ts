@@ -0,0 +1,75 @@
+// NetPick API - Catalog Sync Endpoint
+// GET /api/cron/sync - Applies the upstream /changes feed to the cached catalog (scheduler or admin only)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest, isCronRequest } from '@/lib/utils/adminAuth';
+import { catalogSync } from '@/lib/services/catalogSync';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!isCronRequest(request) && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const country = searchParams.get('country')?.toLowerCase();
+
+    if (country && !/^[a-z]{2}$/.test(country)) {
+      return NextResponse.json(
+        { error: 'Invalid country. Must be an ISO 3166-1 alpha-2 code.' },
+        { status: 400 }
+      );
+    }
+
+    const checkpoints = await catalogSync.sync(country);
+    const failed = checkpoints.filter((checkpoint) => checkpoint.error);
+
+    const response = {
+      success: failed.length === 0,
+      data: {
+        countries: checkpoints.map((checkpoint) => ({
+          ...checkpoint,
+          lastSync: new Date(checkpoint.lastSync).toISOString(),
+          lastRun: new Date(checkpoint.lastRun).toISOString()
+        })),
+        metadata: {
+          syncedCountries: checkpoints.length - failed.length,
+          failedCountries: failed.length,
+          responseTime: Date.now() - startTime,
+          timestamp: new Date().toISOString()
+        }
+      }
+    };
+
+    return NextResponse.json(response, {
+      status: failed.length === 0 ? 200 : 207,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('[CatalogSync] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Catalog sync failed',
+        metadata: {
+          responseTime: Date.now() - startTime,
+          timestamp: new Date().toISOString()
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,26 +2,45 @@
 // GET /api/discover - Returns random Netflix content
 
 import { NextRequest, NextResponse } from 'next/server';
-import { randomPickerService } from '@/lib/services/randomPicker';
-import { SUPPORTED_COUNTRIES, SupportedCountry } from '@/lib/types/netflix';
+import {
+  randomPickerService,
+  MAX_PICK_COUNT,
+  DEFAULT_LEAVING_DAYS,
+  DEFAULT_ARRIVAL_DAYS,
+  MAX_CHANGE_DAYS
+} from '@/lib/services/randomPicker';
+import { toShowPayload } from '@/lib/utils/showPayload';
+import {
+  SUPPORTED_SERVICES,
+  DEFAULT_SERVICES,
+  SupportedCountry,
+  RandomPickerConfig,
+  DiscoverMode,
+  SelectionStrategyName,
+  VideoQuality,
+  VIDEO_QUALITIES,
+  APIError
+} from '@/lib/types/netflix';
+import { countryCatalog } from '@/lib/services/countryCatalog';
+import { genreCatalog } from '@/lib/services/genreCatalog';
+import { selectionStrategies, DEFAULT_STRATEGY } from '@/lib/services/selectionStrategies';
+import { isValidSeed } from '@/lib/utils/random';
+import { getClientIP } from '@/lib/utils/clientIP';
+import { getUserId, getRateLimitKey } from '@/lib/utils/session';
+import { checkRateLimit } from '@/lib/utils/rateLimit';
+import { isFailoverError, RETRY_AFTER_SECONDS } from '@/lib/services/httpClient';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-// Rate limiting (simple in-memory store)
-const requestCounts = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT = parseInt(process.env.RATE_LIMIT_PER_USER || '100');
-const RATE_WINDOW = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000');
-
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
 
   try {
-    // Extract client IP for rate limiting
     const clientIP = getClientIP(request);
 
     // Check rate limit
-    if (!checkRateLimit(clientIP)) {
+    if (!checkRateLimit('discover', getRateLimitKey(request))) {
       return NextResponse.json(
         { error: 'Rate limit exceeded. Please try again later.' },
         { status: 429 }
@@ -30,17 +49,40 @@ export async function GET(request: NextRequest) {
 
     // Parse query parameters
     const { searchParams } = new URL(request.url);
-    const country = searchParams.get('country') as SupportedCountry || 'us';
+    const country = (searchParams.get('country') || 'us').toLowerCase() as SupportedCountry;
     const showType = searchParams.get('type') as 'movie' | 'series' | 'any' || 'any';
-    const minRating = searchParams.get('minRating') ? parseInt(searchParams.get('minRating')!) : undefined;
-    const userId = searchParams.get('userId') || clientIP; // Use IP as fallback user ID
+    const services = searchParams.get('services')?.split(',').map((service) => service.trim()).filter(Boolean);
+    const genres = searchParams.get('genres')?.split(',').map((genre) => genre.trim()).filter(Boolean);
+    const genresRelation = searchParams.get('genresRelation') as 'and' | 'or' | null;
+    const originalLanguage = searchParams.get('originalLanguage')?.toLowerCase();
+    const keyword = searchParams.get('keyword')?.trim();
+    const yearMin = parseIntParam(searchParams.get('yearMin'));
+    const yearMax = parseIntParam(searchParams.get('yearMax'));
+    // minRating is the legacy name of ratingMin
+    const ratingMin = parseIntParam(searchParams.get('ratingMin') ?? searchParams.get('minRating'));
+    const ratingMax = parseIntParam(searchParams.get('ratingMax'));
+    const mode = (searchParams.get('mode') || 'random') as DiscoverMode;
+    const withinDays = parseIntParam(searchParams.get('withinDays')) ?? DEFAULT_LEAVING_DAYS;
+    const sinceDays = parseIntParam(searchParams.get('sinceDays')) ?? DEFAULT_ARRIVAL_DAYS;
+    const seed = searchParams.get('seed') ?? undefined;
+    const count = parseIntParam(searchParams.get('count'));
+    const minMinutes = parseIntParam(searchParams.get('minMinutes'));
+    const maxMinutes = parseIntParam(searchParams.get('maxMinutes'));
+    const audio = searchParams.get('audio')?.toLowerCase();
+    const subtitle = searchParams.get('subtitle')?.toLowerCase();
+    const closedCaptions = searchParams.get('closedCaptions');
+    const minQuality = searchParams.get('minQuality')?.toLowerCase() as VideoQuality | undefined;
+    const strategy = (searchParams.get('strategy') || DEFAULT_STRATEGY) as SelectionStrategyName;
+    const userId = getUserId(request); // Session, or the userId parameter in debug mode
 
     // Validate parameters
-    if (!Object.keys(SUPPORTED_COUNTRIES).includes(country)) {
+    const countryInfo = await countryCatalog.getCountry(country);
+
+    if (!countryInfo) {
       return NextResponse.json(
         {
           error: 'Invalid country',
-          supportedCountries: Object.keys(SUPPORTED_COUNTRIES)
+          supportedCountries: await countryCatalog.getCountryCodes()
         },
         { status: 400 }
       );
@@ -56,60 +98,250 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    if (minRating && (minRating < 0 || minRating > 100)) {
+    if (services && (services.length === 0 || services.some((service) => !Object.keys(SUPPORTED_SERVICES).includes(service)))) {
+      return NextResponse.json(
+        {
+          error: 'Invalid services',
+          supportedServices: Object.keys(SUPPORTED_SERVICES)
+        },
+        { status: 400 }
+      );
+    }
+
+    const countryServices = countryInfo.services.map((service) => service.id);
+    const requestedServices = services?.length ? services : DEFAULT_SERVICES;
+
+    if (!requestedServices.some((service) => countryServices.includes(service))) {
+      return NextResponse.json(
+        {
+          error: `None of the requested services are available in ${countryInfo.name}`,
+          availableServices: countryServices
+        },
+        { status: 400 }
+      );
+    }
+
+    const genreIds = genres ? await genreCatalog.getGenreIds() : [];
+
+    if (genres && genres.some((genre) => !genreIds.includes(genre))) {
+      return NextResponse.json(
+        {
+          error: 'Invalid genres',
+          supportedGenres: genreIds
+        },
+        { status: 400 }
+      );
+    }
+
+    if (genresRelation && !['and', 'or'].includes(genresRelation)) {
+      return NextResponse.json(
+        { error: 'Invalid genresRelation. Must be "and" or "or".' },
+        { status: 400 }
+      );
+    }
+
+    if (originalLanguage && !/^[a-z]{2}$/.test(originalLanguage)) {
+      return NextResponse.json(
+        { error: 'Invalid originalLanguage. Must be an ISO 639-1 code.' },
+        { status: 400 }
+      );
+    }
+
+    if (keyword && keyword.length > 100) {
+      return NextResponse.json(
+        { error: 'Invalid keyword. Must be at most 100 characters.' },
+        { status: 400 }
+      );
+    }
+
+    const maxYear = new Date().getFullYear() + 1;
+    for (const [name, year] of [['yearMin', yearMin], ['yearMax', yearMax]] as const) {
+      if (year !== undefined && (isNaN(year) || year < 1900 || year > maxYear)) {
+        return NextResponse.json(
+          { error: `Invalid ${name}. Must be between 1900 and ${maxYear}.` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (yearMin !== undefined && yearMax !== undefined && yearMin > yearMax) {
       return NextResponse.json(
-        { error: 'Invalid minRating. Must be between 0 and 100.' },
+        { error: 'Invalid year range. yearMin must not exceed yearMax.' },
+        { status: 400 }
+      );
+    }
+
+    for (const [name, rating] of [['ratingMin', ratingMin], ['ratingMax', ratingMax]] as const) {
+      if (rating !== undefined && (isNaN(rating) || rating < 0 || rating > 100)) {
+        return NextResponse.json(
+          { error: `Invalid ${name}. Must be between 0 and 100.` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (ratingMin !== undefined && ratingMax !== undefined && ratingMin > ratingMax) {
+      return NextResponse.json(
+        { error: 'Invalid rating range. ratingMin must not exceed ratingMax.' },
+        { status: 400 }
+      );
+    }
+
+    if (!['random', 'leaving-soon', 'new-arrivals'].includes(mode)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid mode',
+          supportedModes: ['random', 'leaving-soon', 'new-arrivals']
+        },
+        { status: 400 }
+      );
+    }
+
+    // Only the active mode's window is used, so only it is checked
+    const windows = [
+      ['withinDays', withinDays, 'leaving-soon'],
+      ['sinceDays', sinceDays, 'new-arrivals']
+    ] as const;
+    for (const [name, days, windowMode] of windows) {
+      if (mode === windowMode && (isNaN(days) || days < 1 || days > MAX_CHANGE_DAYS)) {
+        return NextResponse.json(
+          { error: `Invalid ${name}. Must be between 1 and ${MAX_CHANGE_DAYS}.` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // The change feed has no language or keyword data to filter on
+    if (mode !== 'random' && (originalLanguage || keyword)) {
+      return NextResponse.json(
+        { error: `originalLanguage and keyword are not supported with mode=${mode}.` },
+        { status: 400 }
+      );
+    }
+
+    if (seed !== undefined && !isValidSeed(seed)) {
+      return NextResponse.json(
+        { error: 'Invalid seed. Must be 1-64 letters, digits, "-" or "_".' },
+        { status: 400 }
+      );
+    }
+
+    if (!Object.keys(selectionStrategies).includes(strategy)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid strategy',
+          supportedStrategies: Object.keys(selectionStrategies)
+        },
+        { status: 400 }
+      );
+    }
+
+    if (count !== undefined && (isNaN(count) || count < 1 || count > MAX_PICK_COUNT)) {
+      return NextResponse.json(
+        { error: `Invalid count. Must be between 1 and ${MAX_PICK_COUNT}.` },
+        { status: 400 }
+      );
+    }
+
+    for (const [name, minutes] of [['minMinutes', minMinutes], ['maxMinutes', maxMinutes]] as const) {
+      if (minutes !== undefined && (isNaN(minutes) || minutes < 1 || minutes > 600)) {
+        return NextResponse.json(
+          { error: `Invalid ${name}. Must be between 1 and 600.` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (minMinutes !== undefined && maxMinutes !== undefined && minMinutes > maxMinutes) {
+      return NextResponse.json(
+        { error: 'Invalid time range. minMinutes must not exceed maxMinutes.' },
+        { status: 400 }
+      );
+    }
+
+    // Streaming options list languages as ISO 639-2 codes
+    for (const [name, language] of [['audio', audio], ['subtitle', subtitle]] as const) {
+      if (language && !/^[a-z]{3}$/.test(language)) {
+        return NextResponse.json(
+          { error: `Invalid ${name}. Must be an ISO 639-2 code.` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (closedCaptions !== null && !['true', 'false'].includes(closedCaptions)) {
+      return NextResponse.json(
+        { error: 'Invalid closedCaptions. Must be true or false.' },
+        { status: 400 }
+      );
+    }
+
+    if (minQuality && !VIDEO_QUALITIES.includes(minQuality)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid minQuality',
+          supportedQualities: VIDEO_QUALITIES
+        },
         { status: 400 }
       );
     }
 
     // Configure random picker
-    const config = {
+    const config: RandomPickerConfig = {
       country,
       showType: showType === 'any' ? undefined : showType,
+      // Drop services the country does not have so they do not split the cache key
+      services: requestedServices.filter((service) => countryServices.includes(service)),
       excludeRecent: true,
-      minRating
+      genres,
+      genresRelation: genresRelation || undefined,
+      originalLanguage,
+      yearMin,
+      yearMax,
+      ratingMin,
+      ratingMax,
+      keyword: keyword || undefined,
+      mode,
+      withinDays: mode === 'leaving-soon' ? withinDays : undefined,
+      sinceDays: mode === 'new-arrivals' ? sinceDays : undefined,
+      seed,
+      strategy,
+      minMinutes,
+      maxMinutes,
+      audio: audio || undefined,
+      subtitle: subtitle || undefined,
+      closedCaptions: closedCaptions === 'true',
+      minQuality
     };
 
     console.log(`[API] Discover request: ${JSON.stringify(config)} from ${clientIP}`);
 
-    // Get random show via direct API call
-    const result = await randomPickerService.discover(config, userId);
+    // Get random show from the cached catalog
+    const result = await randomPickerService.discover(config, userId, count);
 
     // Build response
     const response = {
       success: true,
       data: {
-        show: {
-          id: result.show.id,
-          title: result.show.title,
-          originalTitle: result.show.originalTitle,
-          overview: result.show.overview,
-          showType: result.show.showType,
-          releaseYear: result.show.releaseYear,
-          firstAirYear: result.show.firstAirYear,
-          lastAirYear: result.show.lastAirYear,
-          rating: result.show.rating,
-          genres: result.show.genres,
-          runtime: result.show.runtime,
-          seasonCount: result.show.seasonCount,
-          episodeCount: result.show.episodeCount,
-          cast: result.show.cast?.slice(0, 5), // Limit cast for performance
-          directors: result.show.directors,
-          creators: result.show.creators,
-          images: {
-            poster: result.show.imageSet.verticalPoster?.w480 || result.show.imageSet.verticalPoster?.w360,
-            backdrop: result.show.imageSet.horizontalPoster?.w720 || result.show.imageSet.horizontalPoster?.w480,
-            posterSizes: result.show.imageSet.verticalPoster,
-            backdropSizes: result.show.imageSet.horizontalPoster
-          },
-          netflixLink: result.show.netflixLink,
-          tmdbId: result.show.tmdbId,
-          imdbId: result.show.imdbId
-        },
+        show: toShowPayload(result.show),
+        // Only for batch requests, so single-pick clients see the same shape as before
+        ...(count !== undefined && { shows: result.shows.map(toShowPayload) }),
         metadata: {
           country: result.country,
           fromCache: result.fromCache,
+          provider: result.provider,
+          mode,
+          ...(mode === 'leaving-soon' && { withinDays }),
+          ...(mode === 'new-arrivals' && { sinceDays }),
+          seed: result.seed,
+          strategy: result.strategy,
+          ...(count !== undefined && { count: result.shows.length }),
+          ...(minMinutes !== undefined && { minMinutes }),
+          ...(maxMinutes !== undefined && { maxMinutes }),
+          ...(audio && { audio }),
+          ...(subtitle && { subtitle }),
+          ...(closedCaptions === 'true' && { closedCaptions: true }),
+          ...(minQuality && { minQuality }),
           responseTime: result.responseTime,
           requestId: generateRequestId(),
           timestamp: new Date().toISOString()
@@ -122,6 +354,7 @@ export async function GET(request: NextRequest) {
     const headers = new Headers({
       'X-Response-Time': `${totalTime}ms`,
       'X-Cache-Hit': result.fromCache ? 'true' : 'false',
+      'X-Provider': result.provider,
       'Cache-Control': 'no-cache, no-store, must-revalidate',
       'Content-Type': 'application/json'
     });
@@ -135,6 +368,7 @@ export async function GET(request: NextRequest) {
 
     const errorMessage = error instanceof Error ? error.message : 'Internal server error';
     const totalTime = Date.now() - startTime;
+    const status = getErrorStatus(error);
 
     return NextResponse.json(
       {
@@ -145,73 +379,35 @@ export async function GET(request: NextRequest) {
           timestamp: new Date().toISOString()
         }
       },
-      { status: 500 }
+      {
+        status,
+        ...(status === 503 && { headers: { 'Retry-After': String(RETRY_AFTER_SECONDS) } })
+      }
     );
   }
 }
 
 // Helper functions
 
-function getClientIP(request: NextRequest): string {
-  // Try various headers to get the real client IP
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  const cfConnectingIP = request.headers.get('cf-connecting-ip');
-
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-
-  if (realIP) {
-    return realIP;
+function parseIntParam(value: string | null): number | undefined {
+  if (value === null || value === '') {
+    return undefined;
   }
 
-  if (cfConnectingIP) {
-    return cfConnectingIP;
-  }
-
-  // Fallback to a default
-  return 'unknown';
+  return Number.isInteger(Number(value)) ? Number(value) : NaN;
 }
 
-function checkRateLimit(clientIP: string): boolean {
-  const now = Date.now();
-  const key = clientIP;
-
-  if (!requestCounts.has(key)) {
-    requestCounts.set(key, { count: 1, resetTime: now + RATE_WINDOW });
-    return true;
+function getErrorStatus(error: unknown): number {
+  // Nothing matches the filters
+  if (error instanceof APIError && error.statusCode === 404) {
+    return 404;
   }
 
-  const clientData = requestCounts.get(key)!;
-
-  // Reset if window has passed
-  if (now > clientData.resetTime) {
-    clientData.count = 1;
-    clientData.resetTime = now + RATE_WINDOW;
-    return true;
-  }
-
-  // Check if under limit
-  if (clientData.count < RATE_LIMIT) {
-    clientData.count++;
-    return true;
-  }
-
-  return false;
+  // No provider could answer (outage, timeout, spent quota): the upstream is down, not this service
+  return isFailoverError(error) ? 503 : 500;
 }
 
 function generateRequestId(): string {
   return Math.random().toString(36).substring(2, 15) +
          Math.random().toString(36).substring(2, 15);
 }
-
-// Periodic cleanup of rate limit data
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, data] of requestCounts.entries()) {
-    if (now > data.resetTime + RATE_WINDOW) {
-      requestCounts.delete(key);
-    }
-  }
-}, RATE_WINDOW);
\ No newline at end of file
@@ -0,0 +1,170 @@
+// NetPick API - Feedback Endpoint
+// GET /api/feedback - Titles the session marked "not interested"
+// POST /api/feedback - Mark a title ({ showId, country, feedback: "not-interested" })
+// DELETE /api/feedback?showId= - Take a "not interested" back
+
+import { NextRequest, NextResponse } from 'next/server';
+import { preferenceStore, toDismissedEntry } from '@/lib/services/preferenceStore';
+import { catalogCache } from '@/lib/services/catalogCache';
+import { countryCatalog } from '@/lib/services/countryCatalog';
+import { SupportedCountry, SHOW_ID_PATTERN } from '@/lib/types/netflix';
+import { getUserId, getRateLimitKey } from '@/lib/utils/session';
+import { checkRateLimit } from '@/lib/utils/rateLimit';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FEEDBACK_TYPES = ['not-interested'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { dismissed } = await preferenceStore.getPreferences(getUserId(request));
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          dismissed: dismissed.map((entry) => ({
+            ...entry,
+            dismissedAt: new Date(entry.dismissedAt).toISOString()
+          })),
+          metadata: {
+            total: dismissed.length,
+            timestamp: new Date().toISOString()
+          }
+        }
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error('[Feedback] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load feedback'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!checkRateLimit('feedback', getRateLimitKey(request))) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const showId = typeof body?.showId === 'string' ? body.showId : '';
+    const country = (typeof body?.country === 'string' ? body.country : 'us').toLowerCase() as SupportedCountry;
+    const feedback = body?.feedback;
+
+    if (!SHOW_ID_PATTERN.test(showId)) {
+      return NextResponse.json(
+        { error: 'Invalid show id' },
+        { status: 400 }
+      );
+    }
+
+    if (!FEEDBACK_TYPES.includes(feedback)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid feedback',
+          supportedFeedback: FEEDBACK_TYPES
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!(await countryCatalog.isSupported(country))) {
+      return NextResponse.json(
+        {
+          error: 'Invalid country',
+          supportedCountries: await countryCatalog.getCountryCodes()
+        },
+        { status: 400 }
+      );
+    }
+
+    // Genres come from the catalog, they drive the picker's down-weighting
+    const { show } = await catalogCache.getShow(showId, country);
+
+    if (!show) {
+      return NextResponse.json(
+        { success: false, error: 'Show not found' },
+        { status: 404 }
+      );
+    }
+
+    await preferenceStore.dismiss(getUserId(request), toDismissedEntry(show));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        showId: show.id,
+        feedback,
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[Feedback] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save feedback'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const showId = searchParams.get('showId') || '';
+
+    if (!SHOW_ID_PATTERN.test(showId)) {
+      return NextResponse.json(
+        { error: 'Invalid show id' },
+        { status: 400 }
+      );
+    }
+
+    const removed = await preferenceStore.undismiss(getUserId(request), showId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        showId,
+        removed,
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[Feedback] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove feedback'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+// NetPick API - Genres Endpoint
+// GET /api/genres - List of genres accepted by the discover filters
+
+import { NextResponse } from 'next/server';
+import { genreCatalog } from '@/lib/services/genreCatalog';
+import { getListCacheControl } from '@/lib/services/cachedList';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const genres = await genreCatalog.getGenres();
+    const catalogStats = genreCatalog.getStats();
+
+    const response = {
+      success: true,
+      data: {
+        genres,
+        metadata: {
+          totalGenres: genres.length,
+          source: catalogStats.source,
+          timestamp: new Date().toISOString()
+        }
+      }
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': getListCacheControl(catalogStats.source)
+      }
+    });
+
+  } catch (error) {
+    console.error('[Genres] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch genres',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,13 @@
 import { NextResponse } from "next/server";
 import { randomPickerService } from "@/lib/services/randomPicker";
 import { streamingAvailabilityService } from "@/lib/services/streamingAvailability";
+import { catalogCache } from "@/lib/services/catalogCache";
+import { catalogCrawler } from "@/lib/services/catalogCrawler";
+import { catalogSync } from "@/lib/services/catalogSync";
+import { countryCatalog } from "@/lib/services/countryCatalog";
+import { genreCatalog } from "@/lib/services/genreCatalog";
+import { tmdbService } from "@/lib/services/tmdb";
+import { usageTracker } from "@/lib/services/usageTracker";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -15,6 +22,10 @@ export async function GET() {
 		// Check picker stats
 		const pickerStats = randomPickerService.getStats();
 
+		// Check cache pools and their change sync
+		const cacheStats = catalogCache.getMetadata();
+		const syncStats = catalogSync.getStats();
+
 		// Check external API health
 		let apiHealth;
 		try {
@@ -29,8 +40,15 @@ export async function GET() {
 			};
 		}
 
+		// Check the upstream circuit breaker and quota
+		const circuitStats = streamingAvailabilityService.getCircuitStats();
+		const usageStats = usageTracker.getStats();
+
 		// Determine overall system health
-		const isHealthy = apiHealth.status === "ok";
+		const isHealthy =
+			apiHealth.status === "ok" &&
+			circuitStats.state === "closed" &&
+			!usageStats.budget.exhausted;
 		const overallStatus = isHealthy ? "healthy" : "degraded";
 
 		const response = {
@@ -42,6 +60,7 @@ export async function GET() {
 					status: "healthy",
 					stats: {
 						totalPicks: pickerStats.totalPicks,
+						fallbackPicks: pickerStats.fallbackPicks,
 						averageResponseTime: Math.round(
 							pickerStats.averageResponseTime
 						),
@@ -52,17 +71,62 @@ export async function GET() {
 							: null,
 					},
 				},
+				cache: {
+					status: "healthy",
+					stats: {
+						totalShows: cacheStats.totalShows,
+						pools: cacheStats.poolSizes,
+						hitRate: Math.round(cacheStats.hitRate * 100) / 100,
+						hitCount: cacheStats.hitCount,
+						missCount: cacheStats.missCount,
+						lastRefresh: cacheStats.lastGlobalRefresh
+							? new Date(
+								cacheStats.lastGlobalRefresh
+							  ).toISOString()
+							: null,
+					},
+				},
+				crawler: {
+					status: "healthy",
+					chains: catalogCrawler.getStats(),
+				},
+				sync: {
+					status: syncStats.countries.some((checkpoint) => checkpoint.error)
+						? "degraded"
+						: "healthy",
+					...syncStats,
+				},
 				streamingAPI: {
 					status: apiHealth.status,
 					message: apiHealth.message,
+					circuit: {
+						...circuitStats,
+						openedAt: circuitStats.openedAt
+							? new Date(circuitStats.openedAt).toISOString()
+							: null,
+						lastFailure: circuitStats.lastFailure
+							? new Date(circuitStats.lastFailure).toISOString()
+							: null,
+					},
+				},
+				usage: {
+					status: usageStats.budget.exhausted ? "exhausted" : "ok",
+					requestsToday: usageStats.today.total,
+					refusedToday: usageStats.today.refused,
+					budget: usageStats.budget,
+					quota: usageStats.quota,
+				},
+				fallbackAPI: {
+					provider: "tmdb",
+					configured: tmdbService.isConfigured(),
+					circuit: tmdbService.getCircuitStats().state,
 				},
 			},
 			environment: {
 				nodeEnv: process.env.NODE_ENV,
-				supportedCountries: process.env.SUPPORTED_COUNTRIES?.split(
-					","
-				) || ["us"],
-				architecture: "direct-api", // No cache anymore
+				countries: countryCatalog.getStats(),
+				genres: genreCatalog.getStats(),
+				architecture: "memory-cache",
 			},
 		};
 
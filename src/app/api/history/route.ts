@@ -0,0 +1,90 @@
+// NetPick API - Pick History Endpoint
+// GET /api/history - A user's recent picks, most recent first
+// DELETE /api/history - Forget a user's picks so they can come up again
+
+import { NextRequest, NextResponse } from 'next/server';
+import { historyStore, HISTORY_DEPTH } from '@/lib/services/historyStore';
+import { randomPickerService } from '@/lib/services/randomPicker';
+import { getUserId } from '@/lib/utils/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = getUserId(request);
+    const limit = parseInt(searchParams.get('limit') || String(HISTORY_DEPTH));
+
+    if (isNaN(limit) || limit < 1 || limit > HISTORY_DEPTH) {
+      return NextResponse.json(
+        { error: `Invalid limit. Must be between 1 and ${HISTORY_DEPTH}.` },
+        { status: 400 }
+      );
+    }
+
+    const history = await historyStore.getHistory(userId);
+
+    const response = {
+      success: true,
+      data: {
+        history: history.slice(0, limit).map((entry) => ({
+          ...entry,
+          pickedAt: new Date(entry.pickedAt).toISOString()
+        })),
+        metadata: {
+          total: history.length,
+          depth: HISTORY_DEPTH,
+          store: historyStore.name,
+          timestamp: new Date().toISOString()
+        }
+      }
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    });
+
+  } catch (error) {
+    console.error('[History] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load history'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = getUserId(request);
+
+    const removed = await randomPickerService.clearUserHistory(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        removed,
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[History] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to clear history'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,216 @@
+// NetPick API - Room Participants Endpoint
+// POST /api/rooms/[code]/participants - Join the room ({ name }), or rename yourself
+// PATCH /api/rooms/[code]/participants - Set your preferences ({ showType?, genres?, maxMinutes?, vetoedGenres? })
+// DELETE /api/rooms/[code]/participants - Leave the room, closing it when the host leaves
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  roomService,
+  ROOM_CODE_PATTERN,
+  MAX_NAME_LENGTH,
+  ROOM_RATE_LIMIT
+} from '@/lib/services/roomService';
+import { genreCatalog } from '@/lib/services/genreCatalog';
+import { GroupMemberPreferences, RoomError } from '@/lib/types/netflix';
+import { getUserId, getRateLimitKey } from '@/lib/utils/session';
+import { checkRateLimit } from '@/lib/utils/rateLimit';
+import { toRoomPayload } from '@/lib/utils/roomPayload';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    if (!checkRateLimit('rooms', getRateLimitKey(request), ROOM_RATE_LIMIT)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const code = (await params).code.toUpperCase();
+    const body = await request.json().catch(() => null);
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+
+    if (!ROOM_CODE_PATTERN.test(code)) {
+      return NextResponse.json(
+        { error: 'Invalid room code' },
+        { status: 400 }
+      );
+    }
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Invalid name. Must be 1-${MAX_NAME_LENGTH} characters.` },
+        { status: 400 }
+      );
+    }
+
+    const userId = getUserId(request);
+    const room = await roomService.join(code, userId, name);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        room: toRoomPayload(room, userId),
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[Rooms] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to join room'
+      },
+      { status: error instanceof RoomError ? error.statusCode : 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    if (!checkRateLimit('rooms', getRateLimitKey(request), ROOM_RATE_LIMIT)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const code = (await params).code.toUpperCase();
+    const body = await request.json().catch(() => null);
+    const showType = body?.showType ?? 'any';
+    const genres: unknown = body?.genres ?? [];
+    const vetoedGenres: unknown = body?.vetoedGenres ?? [];
+    const maxMinutes: unknown = body?.maxMinutes ?? undefined;
+
+    if (!ROOM_CODE_PATTERN.test(code)) {
+      return NextResponse.json(
+        { error: 'Invalid room code' },
+        { status: 400 }
+      );
+    }
+
+    if (!['movie', 'series', 'any'].includes(showType)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid showType',
+          supportedTypes: ['movie', 'series', 'any']
+        },
+        { status: 400 }
+      );
+    }
+
+    const genreIds = await genreCatalog.getGenreIds();
+
+    for (const [name, list] of [['genres', genres], ['vetoedGenres', vetoedGenres]] as const) {
+      if (!Array.isArray(list) || list.some((genre) => !genreIds.includes(genre))) {
+        return NextResponse.json(
+          {
+            error: `Invalid ${name}`,
+            supportedGenres: genreIds
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (
+      maxMinutes !== undefined &&
+      (!Number.isInteger(maxMinutes) || (maxMinutes as number) < 1 || (maxMinutes as number) > 600)
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid maxMinutes. Must be between 1 and 600.' },
+        { status: 400 }
+      );
+    }
+
+    const preferences: GroupMemberPreferences = {
+      showType,
+      genres: genres as string[],
+      vetoedGenres: vetoedGenres as string[],
+      maxMinutes: maxMinutes as number | undefined
+    };
+
+    const userId = getUserId(request);
+    const room = await roomService.updatePreferences(code, userId, preferences);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        room: toRoomPayload(room, userId),
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[Rooms] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save preferences'
+      },
+      { status: error instanceof RoomError ? error.statusCode : 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    if (!checkRateLimit('rooms', getRateLimitKey(request), ROOM_RATE_LIMIT)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const code = (await params).code.toUpperCase();
+
+    if (!ROOM_CODE_PATTERN.test(code)) {
+      return NextResponse.json(
+        { error: 'Invalid room code' },
+        { status: 400 }
+      );
+    }
+
+    const room = await roomService.leave(code, getUserId(request));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        code,
+        closed: room === null,
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[Rooms] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to leave room'
+      },
+      { status: error instanceof RoomError ? error.statusCode : 500 }
+    );
+  }
+}
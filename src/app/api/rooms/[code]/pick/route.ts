@@ -0,0 +1,69 @@
+// NetPick API - Room Pick Endpoint
+// POST /api/rooms/[code]/pick - Pick one title for everyone in the room, host only
+
+import { NextRequest, NextResponse } from 'next/server';
+import { roomService, ROOM_CODE_PATTERN, ROOM_RATE_LIMIT } from '@/lib/services/roomService';
+import { RoomError } from '@/lib/types/netflix';
+import { getUserId, getRateLimitKey } from '@/lib/utils/session';
+import { checkRateLimit } from '@/lib/utils/rateLimit';
+import { toRoomPayload } from '@/lib/utils/roomPayload';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const startTime = Date.now();
+
+  try {
+    if (!checkRateLimit('rooms', getRateLimitKey(request), ROOM_RATE_LIMIT)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const code = (await params).code.toUpperCase();
+
+    if (!ROOM_CODE_PATTERN.test(code)) {
+      return NextResponse.json(
+        { error: 'Invalid room code' },
+        { status: 400 }
+      );
+    }
+
+    const userId = getUserId(request);
+    const room = await roomService.pick(code, userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          room: toRoomPayload(room, userId),
+          metadata: {
+            responseTime: Date.now() - startTime,
+            timestamp: new Date().toISOString()
+          }
+        }
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error('[Rooms] Pick error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to pick for the room'
+      },
+      { status: error instanceof RoomError ? error.statusCode : 500 }
+    );
+  }
+}
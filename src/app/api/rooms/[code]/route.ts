@@ -0,0 +1,113 @@
+// NetPick API - Room Endpoint
+// GET /api/rooms/[code] - Participants, their preferences and the latest pick
+// DELETE /api/rooms/[code] - Close the room, host only
+
+import { NextRequest, NextResponse } from 'next/server';
+import { roomService, ROOM_CODE_PATTERN, ROOM_RATE_LIMIT } from '@/lib/services/roomService';
+import { RoomError } from '@/lib/types/netflix';
+import { getUserId, getRateLimitKey } from '@/lib/utils/session';
+import { checkRateLimit } from '@/lib/utils/rateLimit';
+import { toRoomPayload } from '@/lib/utils/roomPayload';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    if (!checkRateLimit('rooms', getRateLimitKey(request), ROOM_RATE_LIMIT)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const code = (await params).code.toUpperCase();
+
+    if (!ROOM_CODE_PATTERN.test(code)) {
+      return NextResponse.json(
+        { error: 'Invalid room code' },
+        { status: 400 }
+      );
+    }
+
+    const room = await roomService.getRoom(code);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          room: toRoomPayload(room, getUserId(request)),
+          metadata: {
+            timestamp: new Date().toISOString()
+          }
+        }
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error('[Rooms] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load room'
+      },
+      { status: error instanceof RoomError ? error.statusCode : 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    if (!checkRateLimit('rooms', getRateLimitKey(request), ROOM_RATE_LIMIT)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const code = (await params).code.toUpperCase();
+
+    if (!ROOM_CODE_PATTERN.test(code)) {
+      return NextResponse.json(
+        { error: 'Invalid room code' },
+        { status: 400 }
+      );
+    }
+
+    await roomService.close(code, getUserId(request));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        code,
+        closed: true,
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[Rooms] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to close room'
+      },
+      { status: error instanceof RoomError ? error.statusCode : 500 }
+    );
+  }
+}
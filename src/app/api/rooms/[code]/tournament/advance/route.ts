@@ -0,0 +1,60 @@
+// NetPick API - Tournament Advance Endpoint
+// POST /api/rooms/[code]/tournament/advance - Close the round with the votes so far, host only
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ROOM_CODE_PATTERN, ROOM_RATE_LIMIT } from '@/lib/services/roomService';
+import { tournamentService } from '@/lib/services/tournamentService';
+import { RoomError } from '@/lib/types/netflix';
+import { getUserId, getRateLimitKey } from '@/lib/utils/session';
+import { checkRateLimit } from '@/lib/utils/rateLimit';
+import { toRoomPayload } from '@/lib/utils/roomPayload';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    if (!checkRateLimit('rooms', getRateLimitKey(request), ROOM_RATE_LIMIT)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const code = (await params).code.toUpperCase();
+
+    if (!ROOM_CODE_PATTERN.test(code)) {
+      return NextResponse.json(
+        { error: 'Invalid room code' },
+        { status: 400 }
+      );
+    }
+
+    const userId = getUserId(request);
+    const room = await tournamentService.advance(code, userId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        room: toRoomPayload(room, userId),
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[Tournament] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to advance tournament'
+      },
+      { status: error instanceof RoomError ? error.statusCode : 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+// NetPick API - Room Tournament Endpoint
+// POST /api/rooms/[code]/tournament - Draw candidates and open round one ({ size? }), host only
+// DELETE /api/rooms/[code]/tournament - Drop the tournament, host only
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ROOM_CODE_PATTERN, ROOM_RATE_LIMIT } from '@/lib/services/roomService';
+import {
+  tournamentService,
+  MIN_TOURNAMENT_SIZE,
+  MAX_TOURNAMENT_SIZE,
+  DEFAULT_TOURNAMENT_SIZE
+} from '@/lib/services/tournamentService';
+import { RoomError } from '@/lib/types/netflix';
+import { getUserId, getRateLimitKey } from '@/lib/utils/session';
+import { checkRateLimit } from '@/lib/utils/rateLimit';
+import { toRoomPayload } from '@/lib/utils/roomPayload';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const startTime = Date.now();
+
+  try {
+    if (!checkRateLimit('rooms', getRateLimitKey(request), ROOM_RATE_LIMIT)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const code = (await params).code.toUpperCase();
+    const body = await request.json().catch(() => null);
+    const size: unknown = body?.size ?? DEFAULT_TOURNAMENT_SIZE;
+
+    if (!ROOM_CODE_PATTERN.test(code)) {
+      return NextResponse.json(
+        { error: 'Invalid room code' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Number.isInteger(size) ||
+      (size as number) < MIN_TOURNAMENT_SIZE ||
+      (size as number) > MAX_TOURNAMENT_SIZE
+    ) {
+      return NextResponse.json(
+        { error: `Invalid size. Must be between ${MIN_TOURNAMENT_SIZE} and ${MAX_TOURNAMENT_SIZE}.` },
+        { status: 400 }
+      );
+    }
+
+    const userId = getUserId(request);
+    const room = await tournamentService.start(code, userId, size as number);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          room: toRoomPayload(room, userId),
+          metadata: {
+            responseTime: Date.now() - startTime,
+            timestamp: new Date().toISOString()
+          }
+        }
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('[Tournament] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start tournament'
+      },
+      { status: error instanceof RoomError ? error.statusCode : 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    if (!checkRateLimit('rooms', getRateLimitKey(request), ROOM_RATE_LIMIT)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const code = (await params).code.toUpperCase();
+
+    if (!ROOM_CODE_PATTERN.test(code)) {
+      return NextResponse.json(
+        { error: 'Invalid room code' },
+        { status: 400 }
+      );
+    }
+
+    const userId = getUserId(request);
+    const room = await tournamentService.cancel(code, userId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        room: toRoomPayload(room, userId),
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[Tournament] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel tournament'
+      },
+      { status: error instanceof RoomError ? error.statusCode : 500 }
+    );
+  }
+}
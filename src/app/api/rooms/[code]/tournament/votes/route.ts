@@ -0,0 +1,83 @@
+// NetPick API - Tournament Votes Endpoint
+// POST /api/rooms/[code]/tournament/votes - Keep or skip a candidate ({ showId, vote: "keep" | "skip" })
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ROOM_CODE_PATTERN, ROOM_RATE_LIMIT } from '@/lib/services/roomService';
+import { tournamentService } from '@/lib/services/tournamentService';
+import { TournamentVote } from '@/lib/services/roomStore';
+import { RoomError, SHOW_ID_PATTERN } from '@/lib/types/netflix';
+import { getUserId, getRateLimitKey } from '@/lib/utils/session';
+import { checkRateLimit } from '@/lib/utils/rateLimit';
+import { toRoomPayload } from '@/lib/utils/roomPayload';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const VOTES: TournamentVote[] = ['keep', 'skip'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    if (!checkRateLimit('rooms', getRateLimitKey(request), ROOM_RATE_LIMIT)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const code = (await params).code.toUpperCase();
+    const body = await request.json().catch(() => null);
+    const showId = typeof body?.showId === 'string' ? body.showId : '';
+    const vote = body?.vote;
+
+    if (!ROOM_CODE_PATTERN.test(code)) {
+      return NextResponse.json(
+        { error: 'Invalid room code' },
+        { status: 400 }
+      );
+    }
+
+    if (!SHOW_ID_PATTERN.test(showId)) {
+      return NextResponse.json(
+        { error: 'Invalid show id' },
+        { status: 400 }
+      );
+    }
+
+    if (!VOTES.includes(vote)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid vote',
+          supportedVotes: VOTES
+        },
+        { status: 400 }
+      );
+    }
+
+    const userId = getUserId(request);
+    const room = await tournamentService.vote(code, userId, showId, vote);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        room: toRoomPayload(room, userId),
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[Tournament] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to record vote'
+      },
+      { status: error instanceof RoomError ? error.statusCode : 500 }
+    );
+  }
+}
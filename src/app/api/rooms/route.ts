@@ -0,0 +1,106 @@
+// NetPick API - Rooms Endpoint
+// POST /api/rooms - Open a movie-night room ({ name, country, services? }), the session becomes its host
+
+import { NextRequest, NextResponse } from 'next/server';
+import { roomService, MAX_NAME_LENGTH, ROOM_RATE_LIMIT } from '@/lib/services/roomService';
+import { countryCatalog } from '@/lib/services/countryCatalog';
+import {
+  SUPPORTED_SERVICES,
+  DEFAULT_SERVICES,
+  SupportedCountry,
+  RoomError
+} from '@/lib/types/netflix';
+import { getUserId, getRateLimitKey } from '@/lib/utils/session';
+import { checkRateLimit } from '@/lib/utils/rateLimit';
+import { toRoomPayload } from '@/lib/utils/roomPayload';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!checkRateLimit('rooms', getRateLimitKey(request), ROOM_RATE_LIMIT)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    const country = (typeof body?.country === 'string' ? body.country : 'us').toLowerCase() as SupportedCountry;
+    const services: unknown = body?.services ?? DEFAULT_SERVICES;
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Invalid name. Must be 1-${MAX_NAME_LENGTH} characters.` },
+        { status: 400 }
+      );
+    }
+
+    const countryInfo = await countryCatalog.getCountry(country);
+
+    if (!countryInfo) {
+      return NextResponse.json(
+        {
+          error: 'Invalid country',
+          supportedCountries: await countryCatalog.getCountryCodes()
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(services) ||
+      services.length === 0 ||
+      services.some((service) => !Object.keys(SUPPORTED_SERVICES).includes(service))
+    ) {
+      return NextResponse.json(
+        {
+          error: 'Invalid services',
+          supportedServices: Object.keys(SUPPORTED_SERVICES)
+        },
+        { status: 400 }
+      );
+    }
+
+    const countryServices = countryInfo.services.map((service) => service.id);
+
+    if (!services.some((service) => countryServices.includes(service))) {
+      return NextResponse.json(
+        {
+          error: `None of the requested services are available in ${countryInfo.name}`,
+          availableServices: countryServices
+        },
+        { status: 400 }
+      );
+    }
+
+    const userId = getUserId(request);
+    const room = await roomService.createRoom(userId, name, country, services);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          room: toRoomPayload(room, userId),
+          metadata: {
+            timestamp: new Date().toISOString()
+          }
+        }
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('[Rooms] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to open room'
+      },
+      { status: error instanceof RoomError ? error.statusCode : 500 }
+    );
+  }
+}
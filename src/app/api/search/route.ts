@@ -0,0 +1,110 @@
+// NetPick API - Title Search Endpoint
+// GET /api/search?q=&country=&type= - Checks whether a title is on Netflix in a region
+
+import { NextRequest, NextResponse } from 'next/server';
+import { catalogCache } from '@/lib/services/catalogCache';
+import { SupportedCountry } from '@/lib/types/netflix';
+import { countryCatalog } from '@/lib/services/countryCatalog';
+import { toShowPayload } from '@/lib/utils/showPayload';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 100;
+const MAX_RESULTS = 10;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+    const country = (searchParams.get('country') || 'us').toLowerCase() as SupportedCountry;
+    const showType = searchParams.get('type') as 'movie' | 'series' | 'any' || 'any';
+
+    // Validate parameters
+    if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Invalid q. Must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters.` },
+        { status: 400 }
+      );
+    }
+
+    if (!(await countryCatalog.isSupported(country))) {
+      return NextResponse.json(
+        {
+          error: 'Invalid country',
+          supportedCountries: await countryCatalog.getCountryCodes()
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!['movie', 'series', 'any'].includes(showType)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid type',
+          supportedTypes: ['movie', 'series', 'any']
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await catalogCache.searchByTitle(
+      query,
+      country,
+      showType === 'any' ? undefined : showType
+    );
+
+    // Titles streamable on Netflix first, keeping the API's relevance order otherwise
+    const results = [...result.shows]
+      .sort((a, b) => Number(!!b.netflixLink) - Number(!!a.netflixLink))
+      .slice(0, MAX_RESULTS)
+      .map((show) => ({
+        ...toShowPayload(show),
+        onNetflix: !!show.netflixLink
+      }));
+
+    const totalTime = Date.now() - startTime;
+    const response = {
+      success: true,
+      data: {
+        query,
+        results,
+        metadata: {
+          country,
+          totalResults: results.length,
+          fromCache: result.fromCache,
+          responseTime: totalTime,
+          timestamp: new Date().toISOString()
+        }
+      }
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'X-Response-Time': `${totalTime}ms`,
+        'X-Cache-Hit': result.fromCache ? 'true' : 'false',
+        // Repeated keystroke queries are served by the browser and CDN
+        'Cache-Control': 'public, max-age=60, s-maxage=600, stale-while-revalidate=3600',
+        'Content-Type': 'application/json'
+      }
+    });
+
+  } catch (error) {
+    console.error('[API] Search error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        metadata: {
+          responseTime: Date.now() - startTime,
+          timestamp: new Date().toISOString()
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+// NetPick API - Show Detail Endpoint
+// GET /api/shows/[id] - Returns a single show by id, IMDb id or TMDB id
+
+import { NextRequest, NextResponse } from 'next/server';
+import { catalogCache } from '@/lib/services/catalogCache';
+import { SeriesGranularity } from '@/lib/services/streamingAvailability';
+import { SupportedCountry, SHOW_ID_PATTERN } from '@/lib/types/netflix';
+import { countryCatalog } from '@/lib/services/countryCatalog';
+import { toShowPayload } from '@/lib/utils/showPayload';
+import { getRateLimitKey } from '@/lib/utils/session';
+import { checkRateLimit } from '@/lib/utils/rateLimit';
+import { isFailoverError, RETRY_AFTER_SECONDS } from '@/lib/services/httpClient';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const GRANULARITIES: SeriesGranularity[] = ['show', 'season', 'episode'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const startTime = Date.now();
+
+  try {
+    if (!checkRateLimit('shows', getRateLimitKey(request))) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const id = decodeParam((await params).id);
+    const { searchParams } = new URL(request.url);
+    const country = (searchParams.get('country') || 'us').toLowerCase() as SupportedCountry;
+    const granularity = searchParams.get('granularity') as SeriesGranularity || 'show';
+
+    // Validate parameters
+    if (id === null || !SHOW_ID_PATTERN.test(id)) {
+      return NextResponse.json(
+        { error: 'Invalid show id' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await countryCatalog.isSupported(country))) {
+      return NextResponse.json(
+        {
+          error: 'Invalid country',
+          supportedCountries: await countryCatalog.getCountryCodes()
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!GRANULARITIES.includes(granularity)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid granularity',
+          supportedGranularities: GRANULARITIES
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await catalogCache.getShow(id, country, granularity);
+
+    if (!result.show) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Show not found',
+          metadata: {
+            responseTime: Date.now() - startTime,
+            timestamp: new Date().toISOString()
+          }
+        },
+        {
+          status: 404,
+          headers: {
+            // Short cache: an unknown id may appear after the next catalog update
+            'Cache-Control': 'public, s-maxage=300'
+          }
+        }
+      );
+    }
+
+    const totalTime = Date.now() - startTime;
+    const response = {
+      success: true,
+      data: {
+        show: toShowPayload(result.show),
+        metadata: {
+          country,
+          fromCache: result.fromCache,
+          responseTime: totalTime,
+          timestamp: new Date().toISOString()
+        }
+      }
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'X-Response-Time': `${totalTime}ms`,
+        'X-Cache-Hit': result.fromCache ? 'true' : 'false',
+        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+        'Content-Type': 'application/json'
+      }
+    });
+
+  } catch (error) {
+    console.error('[API] Show detail error:', error);
+
+    // The upstream is down, timing out or out of quota, not this service
+    const unavailable = isFailoverError(error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        metadata: {
+          responseTime: Date.now() - startTime,
+          timestamp: new Date().toISOString()
+        }
+      },
+      {
+        status: unavailable ? 503 : 500,
+        ...(unavailable && { headers: { 'Retry-After': String(RETRY_AFTER_SECONDS) } })
+      }
+    );
+  }
+}
+
+// Helper functions
+
+/**
+ * Decode a path segment, or null when its escapes are malformed (e.g. %E0)
+ */
+function decodeParam(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,257 @@
+// NetPick API - Watchlist Endpoint
+// GET /api/watchlist - The session's saved titles with their current availability
+// POST /api/watchlist - Save a title ({ showId, country })
+// DELETE /api/watchlist?showId= - Remove a saved title
+
+import { NextRequest, NextResponse } from 'next/server';
+import { preferenceStore, toWatchlistEntry, WatchlistEntry } from '@/lib/services/preferenceStore';
+import { catalogCache } from '@/lib/services/catalogCache';
+import { countryCatalog } from '@/lib/services/countryCatalog';
+import { SupportedCountry, SHOW_ID_PATTERN } from '@/lib/types/netflix';
+import { getUserId, getRateLimitKey } from '@/lib/utils/session';
+import { checkRateLimit } from '@/lib/utils/rateLimit';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Availability lookups in flight at once, a cold cache costs one upstream call per title
+const LOOKUP_CONCURRENCY = parseInt(process.env.WATCHLIST_LOOKUP_CONCURRENCY || '5');
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    if (!checkRateLimit('watchlist', getRateLimitKey(request))) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const country = searchParams.get('country')?.toLowerCase() as SupportedCountry | undefined;
+
+    if (country && !(await countryCatalog.isSupported(country))) {
+      return NextResponse.json(
+        {
+          error: 'Invalid country',
+          supportedCountries: await countryCatalog.getCountryCodes()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { watchlist } = await preferenceStore.getPreferences(getUserId(request));
+    // Show details are cached, so repeat visits cost few upstream calls
+    const entries = await mapWithConcurrency(
+      watchlist,
+      LOOKUP_CONCURRENCY,
+      (entry) => withAvailability(entry, country)
+    );
+
+    const response = {
+      success: true,
+      data: {
+        watchlist: entries,
+        metadata: {
+          total: entries.length,
+          country: country || null, // null: each title in the country it was saved in
+          responseTime: Date.now() - startTime,
+          timestamp: new Date().toISOString()
+        }
+      }
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    });
+
+  } catch (error) {
+    console.error('[Watchlist] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load watchlist'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!checkRateLimit('watchlist', getRateLimitKey(request))) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const showId = typeof body?.showId === 'string' ? body.showId : '';
+    const country = (typeof body?.country === 'string' ? body.country : 'us').toLowerCase() as SupportedCountry;
+
+    if (!SHOW_ID_PATTERN.test(showId)) {
+      return NextResponse.json(
+        { error: 'Invalid show id' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await countryCatalog.isSupported(country))) {
+      return NextResponse.json(
+        {
+          error: 'Invalid country',
+          supportedCountries: await countryCatalog.getCountryCodes()
+        },
+        { status: 400 }
+      );
+    }
+
+    // Stored details come from the catalog, not from the client
+    const { show } = await catalogCache.getShow(showId, country);
+
+    if (!show) {
+      return NextResponse.json(
+        { success: false, error: 'Show not found' },
+        { status: 404 }
+      );
+    }
+
+    const added = await preferenceStore.addToWatchlist(
+      getUserId(request),
+      toWatchlistEntry(show, country)
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          showId: show.id,
+          added,
+          metadata: {
+            timestamp: new Date().toISOString()
+          }
+        }
+      },
+      { status: added ? 201 : 200 }
+    );
+
+  } catch (error) {
+    console.error('[Watchlist] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save to watchlist'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const showId = searchParams.get('showId') || '';
+
+    if (!SHOW_ID_PATTERN.test(showId)) {
+      return NextResponse.json(
+        { error: 'Invalid show id' },
+        { status: 400 }
+      );
+    }
+
+    const removed = await preferenceStore.removeFromWatchlist(getUserId(request), showId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        showId,
+        removed,
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('[Watchlist] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove from watchlist'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Helper functions
+
+/**
+ * Map items with at most `limit` calls pending, keeping their order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker)
+  );
+
+  return results;
+}
+
+/**
+ * Where the title streams now; available is null when the lookup failed
+ */
+async function withAvailability(entry: WatchlistEntry, country?: SupportedCountry) {
+  const availabilityCountry = country || (entry.country as SupportedCountry);
+  const saved = {
+    ...entry,
+    addedAt: new Date(entry.addedAt).toISOString()
+  };
+
+  try {
+    const { show } = await catalogCache.getShow(entry.showId, availabilityCountry);
+    const watchLinks = show?.watchLinks || [];
+
+    return {
+      ...saved,
+      availability: {
+        country: availabilityCountry,
+        available: watchLinks.length > 0,
+        netflix: watchLinks.some((link) => link.serviceId === 'netflix'),
+        watchLinks
+      }
+    };
+  } catch (error) {
+    console.warn(`[Watchlist] Availability lookup failed for ${entry.showId}:`, error);
+
+    return {
+      ...saved,
+      availability: {
+        country: availabilityCountry,
+        available: null,
+        netflix: null,
+        watchLinks: []
+      }
+    };
+  }
+}
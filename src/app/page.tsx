@@ -1,43 +1,58 @@
 "use client";
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { motion, AnimatePresence } from "motion/react";
+import Link from "next/link";
+import { BookmarkIcon, UserGroupIcon } from "@heroicons/react/24/outline";
 import DiscoverButton from "@/components/DiscoverButton";
 import ContentCard from "@/components/ContentCard";
 import CountrySelector from "@/components/CountrySelector";
 import TypeSelector from "@/components/TypeSelector";
+import TimeSelector from "@/components/TimeSelector";
+import SearchBox from "@/components/SearchBox";
+import ServiceSelector from "@/components/ServiceSelector";
+import GenreSelector from "@/components/GenreSelector";
+import ModeSelector from "@/components/ModeSelector";
+import Shortlist from "@/components/Shortlist";
+import type { ShowPayload } from "@/lib/utils/showPayload";
 
 type ContentType = "any" | "movie" | "series";
+type MinQuality = "any" | "hd" | "uhd";
+type DiscoverMode = "random" | "leaving-soon" | "new-arrivals";
+type PickCount = 1 | 3;
 
-interface Show {
-	id: string;
-	title: string;
-	originalTitle: string;
-	overview: string;
-	showType: "movie" | "series";
-	releaseYear?: number;
-	firstAirYear?: number;
-	lastAirYear?: number;
-	rating: number;
-	genres: Array<{ id: string; name: string }>;
-	runtime?: number;
-	seasonCount?: number;
-	episodeCount?: number;
-	cast: string[];
-	directors?: string[];
-	creators?: string[];
-	images: {
-		poster: string;
-		backdrop: string;
+// Coerce an API show payload into the shape the card expects
+function normalizeShow(raw: ShowPayload): ShowPayload {
+	return {
+		...raw,
+		genres: Array.isArray(raw.genres) ? raw.genres : [],
+		cast: Array.isArray(raw.cast)
+			? raw.cast.map((member: string) => String(member))
+			: [],
+		directors: Array.isArray(raw.directors)
+			? raw.directors.map((director: string) => String(director))
+			: [],
+		creators: Array.isArray(raw.creators)
+			? raw.creators.map((creator: string) => String(creator))
+			: []
 	};
-	netflixLink?: string;
 }
 
 export default function Home() {
 	const [isLoading, setIsLoading] = useState(false);
-	const [currentShow, setCurrentShow] = useState<Show | null>(null);
+	const [currentShow, setCurrentShow] = useState<ShowPayload | null>(null);
 	const [selectedCountry, setSelectedCountry] = useState<string>("us");
 	const [selectedType, setSelectedType] = useState<ContentType>("any");
+	const [selectedQuality, setSelectedQuality] = useState<MinQuality>("any");
+	const [selectedServices, setSelectedServices] = useState<string[]>([
+		"netflix",
+	]);
+	const [selectedGenres, setSelectedGenres] = useState<string[]>([]);
+	const [selectedMode, setSelectedMode] = useState<DiscoverMode>("random");
+	const [maxMinutes, setMaxMinutes] = useState<number | null>(null);
 	const [error, setError] = useState<string | null>(null);
+	const [isSaved, setIsSaved] = useState(false);
+	const [pickCount, setPickCount] = useState<PickCount>(1);
+	const [shortlist, setShortlist] = useState<ShowPayload[]>([]);
 
 	const handleDiscover = useCallback(async () => {
 		setIsLoading(true);
@@ -48,41 +63,33 @@ export default function Home() {
 			const params = new URLSearchParams({
 				country: selectedCountry,
 				type: selectedType,
-				userId: "demo-user", // In real app, this would be user's session ID
+				services: selectedServices.join(","),
+				mode: selectedMode,
+				...(pickCount > 1 && { count: String(pickCount) }),
+				...(maxMinutes !== null && { maxMinutes: String(maxMinutes) }),
+				...(selectedQuality !== "any" && { minQuality: selectedQuality }),
+				// Chips mean "any of these", not "all of these"
+				...(selectedGenres.length > 0 && {
+					genres: selectedGenres.join(","),
+					genresRelation: "or",
+				}),
 			});
 
 			const response = await fetch(`/api/discover?${params.toString()}`);
 			const data = await response.json();
 
-			// No more cache loading - direct API calls
-
 			if (!response.ok) {
 				throw new Error(
 					data.message || data.error || "Failed to discover content"
 				);
 			}
 
-			if (data.success && data.data.show) {
-				// Ensure genres are properly formatted
-				const show = {
-					...data.data.show,
-					genres: Array.isArray(data.data.show.genres)
-						? data.data.show.genres.map((genre: { id?: string; name?: string }, index: number) => ({
-							id: String(genre.id || genre.name || index),
-							name: String(genre.name || genre.id || 'Unknown')
-						}))
-						: [],
-					cast: Array.isArray(data.data.show.cast)
-						? data.data.show.cast.map((member: string) => String(member))
-						: [],
-					directors: Array.isArray(data.data.show.directors)
-						? data.data.show.directors.map((director: string) => String(director))
-						: [],
-					creators: Array.isArray(data.data.show.creators)
-						? data.data.show.creators.map((creator: string) => String(creator))
-						: []
-				};
-				setCurrentShow(show);
+			if (data.success && pickCount > 1 && data.data.shows?.length) {
+				setCurrentShow(null);
+				setShortlist(data.data.shows.map(normalizeShow));
+			} else if (data.success && data.data.show) {
+				setShortlist([]);
+				setCurrentShow(normalizeShow(data.data.show));
 			} else {
 				throw new Error("No content found");
 			}
@@ -94,12 +101,134 @@ export default function Home() {
 		} finally {
 			setIsLoading(false);
 		}
-	}, [selectedCountry, selectedType]);
+	}, [
+		selectedCountry,
+		selectedType,
+		selectedQuality,
+		selectedServices,
+		selectedGenres,
+		selectedMode,
+		maxMinutes,
+		pickCount,
+	]);
+
+	// Reopen a shared pick from ?show=<id>&country=<code>
+	useEffect(() => {
+		const params = new URLSearchParams(window.location.search);
+		const showId = params.get("show");
+		const country = params.get("country") || "us";
+
+		if (!showId) return;
+
+		setSelectedCountry(country);
+		setIsLoading(true);
+
+		fetch(`/api/shows/${encodeURIComponent(showId)}?country=${country}`)
+			.then(async (response) => {
+				const data = await response.json();
+
+				if (!response.ok || !data.success) {
+					throw new Error(data.error || "This pick is no longer available");
+				}
+
+				setCurrentShow(normalizeShow(data.data.show));
+			})
+			.catch((err) => {
+				console.error("Show lookup error:", err);
+				setError(
+					err instanceof Error ? err.message : "Something went wrong"
+				);
+			})
+			.finally(() => setIsLoading(false));
+	}, []);
+
+	// Keep the address bar pointing at the current pick so it can be shared
+	useEffect(() => {
+		if (!currentShow) return;
+
+		const params = new URLSearchParams({
+			show: currentShow.id,
+			country: selectedCountry,
+		});
+		window.history.replaceState(null, "", `?${params.toString()}`);
+	}, [currentShow, selectedCountry]);
+
+	const handleSearchSelect = useCallback((show: ShowPayload) => {
+		setError(null);
+		setShortlist([]);
+		setCurrentShow(normalizeShow(show));
+	}, []);
+
+	const handleChoose = useCallback((show: ShowPayload) => {
+		setShortlist([]);
+		setCurrentShow(show);
+	}, []);
 
 	const handleNewPick = useCallback(() => {
 		handleDiscover();
 	}, [handleDiscover]);
 
+	// A new pick starts unsaved
+	useEffect(() => {
+		setIsSaved(false);
+	}, [currentShow]);
+
+	const handleSave = useCallback(async () => {
+		if (!currentShow) return;
+
+		try {
+			const response = await fetch("/api/watchlist", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					showId: currentShow.id,
+					country: selectedCountry,
+				}),
+			});
+			const data = await response.json();
+
+			if (!response.ok || !data.success) {
+				throw new Error(data.error || "Failed to save to watchlist");
+			}
+
+			setIsSaved(true);
+		} catch (err) {
+			console.error("Watchlist error:", err);
+			setError(
+				err instanceof Error ? err.message : "Something went wrong"
+			);
+		}
+	}, [currentShow, selectedCountry]);
+
+	// Dismissed titles never come back, so move straight on to the next pick
+	const handleNotInterested = useCallback(async () => {
+		if (!currentShow) return;
+
+		try {
+			const response = await fetch("/api/feedback", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					showId: currentShow.id,
+					country: selectedCountry,
+					feedback: "not-interested",
+				}),
+			});
+			const data = await response.json();
+
+			if (!response.ok || !data.success) {
+				throw new Error(data.error || "Failed to save feedback");
+			}
+
+			handleDiscover();
+		} catch (err) {
+			console.error("Feedback error:", err);
+			setError(
+				err instanceof Error ? err.message : "Something went wrong"
+			);
+		}
+	}, [currentShow, selectedCountry, handleDiscover]);
+
 	return (
 		<div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
 			{/* Header */}
@@ -109,6 +238,23 @@ export default function Home() {
 				animate={{ opacity: 1, y: 0 }}
 				transition={{ duration: 0.6 }}
 			>
+				<div className="absolute top-4 right-4 z-20 flex gap-2">
+					<Link
+						href="/rooms"
+						className="flex items-center gap-1 rounded-full bg-white/10 px-4 py-2 text-sm font-medium text-white backdrop-blur-sm transition-colors hover:bg-white/20"
+					>
+						<UserGroupIcon className="h-4 w-4" />
+						Movie night
+					</Link>
+					<Link
+						href="/watchlist"
+						className="flex items-center gap-1 rounded-full bg-white/10 px-4 py-2 text-sm font-medium text-white backdrop-blur-sm transition-colors hover:bg-white/20"
+					>
+						<BookmarkIcon className="h-4 w-4" />
+						Watchlist
+					</Link>
+				</div>
+
 				<div className="relative z-10 mx-auto max-w-4xl px-6 py-12 text-center">
 					<motion.h1
 						className="mb-4 text-5xl font-bold tracking-tight sm:text-6xl"
@@ -155,22 +301,80 @@ export default function Home() {
 								disabled={isLoading}
 							/>
 						</div>
+						<div className="flex-1 sm:max-w-sm">
+							<label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+								Search a Title
+							</label>
+							<SearchBox
+								country={selectedCountry}
+								onSelect={handleSearchSelect}
+								disabled={isLoading}
+							/>
+						</div>
 					</div>
 
 					{/* Type Selector */}
 					<TypeSelector
 						selectedType={selectedType}
 						onTypeChange={setSelectedType}
+						selectedQuality={selectedQuality}
+						onQualityChange={setSelectedQuality}
+						disabled={isLoading}
+					/>
+
+					{/* Time Budget */}
+					<TimeSelector
+						maxMinutes={maxMinutes}
+						onMaxMinutesChange={setMaxMinutes}
+						disabled={isLoading}
+					/>
+
+					{/* Genre Chips */}
+					<GenreSelector
+						selectedGenres={selectedGenres}
+						onGenresChange={setSelectedGenres}
+						disabled={isLoading}
+					/>
+
+					{/* Service Selector */}
+					<ServiceSelector
+						selectedServices={selectedServices}
+						onServicesChange={setSelectedServices}
+						disabled={isLoading}
+					/>
+
+					{/* Discover Mode */}
+					<ModeSelector
+						selectedMode={selectedMode}
+						onModeChange={setSelectedMode}
 						disabled={isLoading}
 					/>
 
 					{/* Discover Button */}
-					<div className="flex justify-center pt-4">
+					<div className="flex flex-col items-center gap-4 pt-4">
 						<DiscoverButton
 							onDiscover={handleDiscover}
 							isLoading={isLoading}
 							disabled={false}
 						/>
+
+						{/* One pick or a shortlist of three */}
+						<div className="flex rounded-full bg-gray-200 p-1 text-sm font-medium dark:bg-gray-800">
+							{([1, 3] as PickCount[]).map((count) => (
+								<button
+									key={count}
+									onClick={() => setPickCount(count)}
+									disabled={isLoading}
+									className={`rounded-full px-4 py-1 transition-colors ${
+										pickCount === count
+											? "bg-white text-gray-900 shadow dark:bg-gray-900 dark:text-white"
+											: "text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+									}`}
+								>
+									{count === 1 ? "One pick" : "Give me 3"}
+								</button>
+							))}
+						</div>
 					</div>
 				</motion.div>
 
@@ -199,6 +403,15 @@ export default function Home() {
 					)}
 				</AnimatePresence>
 
+				{/* Shortlist */}
+				{shortlist.length > 0 && !error && (
+					<Shortlist
+						shows={shortlist}
+						onChoose={handleChoose}
+						onReroll={handleDiscover}
+					/>
+				)}
+
 				{/* Content Card */}
 				<AnimatePresence mode="wait">
 					{currentShow && !error && (
@@ -213,13 +426,16 @@ export default function Home() {
 								show={currentShow}
 								country={selectedCountry}
 								onNewPick={handleNewPick}
+								isSaved={isSaved}
+								onSave={handleSave}
+								onNotInterested={handleNotInterested}
 							/>
 						</motion.div>
 					)}
 				</AnimatePresence>
 
 				{/* Welcome Message */}
-				{!currentShow && !isLoading && !error && (
+				{!currentShow && shortlist.length === 0 && !isLoading && !error && (
 					<motion.div
 						className="text-center"
 						initial={{ opacity: 0, y: 20 }}
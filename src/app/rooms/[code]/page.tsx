@@ -0,0 +1,523 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { motion, AnimatePresence } from "motion/react";
+import Link from "next/link";
+import {
+	ArrowLeftIcon,
+	ClipboardDocumentIcon,
+	StarIcon,
+} from "@heroicons/react/24/outline";
+import ContentCard from "@/components/ContentCard";
+import TypeSelector from "@/components/TypeSelector";
+import TimeSelector from "@/components/TimeSelector";
+import GenreSelector from "@/components/GenreSelector";
+import SwipeCard from "@/components/SwipeCard";
+import type { ShowPayload } from "@/lib/utils/showPayload";
+
+type ContentType = "any" | "movie" | "series";
+type SwipeVote = "keep" | "skip";
+
+// Room state changes as friends join and the host picks
+const POLL_INTERVAL_MS = 4000;
+
+interface Preferences {
+	showType?: ContentType;
+	genres?: string[];
+	maxMinutes?: number;
+	vetoedGenres?: string[];
+}
+
+interface Participant {
+	id: string;
+	name: string;
+	isHost: boolean;
+	isYou: boolean;
+	preferences: Preferences;
+}
+
+interface Room {
+	code: string;
+	country: string;
+	isHost: boolean;
+	isParticipant: boolean;
+	participants: Participant[];
+	result: {
+		show: ShowPayload;
+		compromise: boolean;
+		satisfiedMembers: number;
+		participantCount: number;
+		pickedAt: string;
+	} | null;
+	tournament: {
+		round: number;
+		finished: boolean;
+		candidates: ShowPayload[];
+		yourVotes: Record<string, SwipeVote>;
+		votersDone: number;
+		rounds: Array<{
+			round: number;
+			tallies: Array<{
+				showId: string;
+				title: string;
+				keeps: number;
+				skips: number;
+				advanced: boolean;
+			}>;
+		}>;
+	} | null;
+}
+
+export default function RoomPage() {
+	const { code } = useParams<{ code: string }>();
+	const router = useRouter();
+	const [room, setRoom] = useState<Room | null>(null);
+	const [genreNames, setGenreNames] = useState<Record<string, string>>({});
+	const [name, setName] = useState("");
+	const [showType, setShowType] = useState<ContentType>("any");
+	const [genres, setGenres] = useState<string[]>([]);
+	const [vetoedGenres, setVetoedGenres] = useState<string[]>([]);
+	const [maxMinutes, setMaxMinutes] = useState<number | null>(null);
+	const [isDirty, setIsDirty] = useState(false);
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const loadRoom = useCallback(async () => {
+		try {
+			const response = await fetch(`/api/rooms/${code}`);
+			const data = await response.json();
+
+			if (!response.ok || !data.success) {
+				throw new Error(data.error || "Failed to load room");
+			}
+
+			setRoom(data.data.room);
+		} catch (err) {
+			console.error("Room error:", err);
+			setError(err instanceof Error ? err.message : "Something went wrong");
+		}
+	}, [code]);
+
+	useEffect(() => {
+		loadRoom();
+		const interval = setInterval(loadRoom, POLL_INTERVAL_MS);
+		return () => clearInterval(interval);
+	}, [loadRoom]);
+
+	useEffect(() => {
+		fetch("/api/genres")
+			.then((response) => response.json())
+			.then((data) => {
+				if (data.success) {
+					setGenreNames(
+						Object.fromEntries(
+							data.data.genres.map((genre: { id: string; name: string }) => [
+								genre.id,
+								genre.name,
+							])
+						)
+					);
+				}
+			})
+			.catch((err) => console.error("Failed to fetch genres:", err));
+	}, []);
+
+	// Start the editor from what the server has, until the user edits it
+	const you = room?.participants.find((participant) => participant.isYou);
+	useEffect(() => {
+		if (!you || isDirty) return;
+
+		setShowType(you.preferences.showType || "any");
+		setGenres(you.preferences.genres || []);
+		setVetoedGenres(you.preferences.vetoedGenres || []);
+		setMaxMinutes(you.preferences.maxMinutes ?? null);
+	}, [you, isDirty]);
+
+	const send = useCallback(
+		async (path: string, method: string, body?: unknown) => {
+			setIsLoading(true);
+			setError(null);
+
+			try {
+				const response = await fetch(`/api/rooms/${code}${path}`, {
+					method,
+					headers: { "Content-Type": "application/json" },
+					body: body ? JSON.stringify(body) : undefined,
+				});
+				const data = await response.json();
+
+				if (!response.ok || !data.success) {
+					throw new Error(data.error || "Request failed");
+				}
+
+				return data.data;
+			} catch (err) {
+				console.error("Room error:", err);
+				setError(err instanceof Error ? err.message : "Something went wrong");
+				return null;
+			} finally {
+				setIsLoading(false);
+			}
+		},
+		[code]
+	);
+
+	const handleJoin = useCallback(async () => {
+		const data = await send("/participants", "POST", { name: name.trim() });
+		if (data) setRoom(data.room);
+	}, [send, name]);
+
+	const handleSavePreferences = useCallback(async () => {
+		const data = await send("/participants", "PATCH", {
+			showType,
+			genres,
+			vetoedGenres,
+			...(maxMinutes !== null && { maxMinutes }),
+		});
+
+		if (data) {
+			setRoom(data.room);
+			setIsDirty(false);
+		}
+	}, [send, showType, genres, vetoedGenres, maxMinutes]);
+
+	const handlePick = useCallback(async () => {
+		const data = await send("/pick", "POST");
+		if (data) setRoom(data.room);
+	}, [send]);
+
+	const handleStartTournament = useCallback(async () => {
+		const data = await send("/tournament", "POST", {});
+		if (data) setRoom(data.room);
+	}, [send]);
+
+	const handleVote = useCallback(
+		async (showId: string, vote: SwipeVote) => {
+			const data = await send("/tournament/votes", "POST", { showId, vote });
+			if (data) setRoom(data.room);
+			return !!data;
+		},
+		[send]
+	);
+
+	const handleAdvance = useCallback(async () => {
+		const data = await send("/tournament/advance", "POST");
+		if (data) setRoom(data.room);
+	}, [send]);
+
+	const handleCancelTournament = useCallback(async () => {
+		const data = await send("/tournament", "DELETE");
+		if (data) setRoom(data.room);
+	}, [send]);
+
+	const handleLeave = useCallback(async () => {
+		const data = await send("/participants", "DELETE");
+		if (data) router.push("/rooms");
+	}, [send, router]);
+
+	const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+		setter(value);
+		setIsDirty(true);
+	};
+
+	const tournament = room?.tournament?.finished ? null : room?.tournament;
+	const nextCandidate = tournament?.candidates.find(
+		(show) => !tournament.yourVotes[show.id]
+	);
+	const lastRound = room?.tournament?.rounds.at(-1);
+
+	const describe = (preferences: Preferences): string => {
+		const parts: string[] = [];
+
+		if (preferences.showType && preferences.showType !== "any") {
+			parts.push(preferences.showType === "movie" ? "Movies" : "Series");
+		}
+		if (preferences.genres?.length) {
+			parts.push(
+				preferences.genres.map((genre) => genreNames[genre] || genre).join(" or ")
+			);
+		}
+		if (preferences.maxMinutes) {
+			parts.push(`≤ ${preferences.maxMinutes} min`);
+		}
+		if (preferences.vetoedGenres?.length) {
+			parts.push(
+				`no ${preferences.vetoedGenres
+					.map((genre) => genreNames[genre] || genre)
+					.join(", ")}`
+			);
+		}
+
+		return parts.length > 0 ? parts.join(" · ") : "Anything goes";
+	};
+
+	return (
+		<div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+			{/* Header */}
+			<header className="bg-gradient-to-r from-red-600 to-red-700 text-white">
+				<div className="mx-auto flex max-w-4xl items-center gap-4 px-6 py-8">
+					<Link
+						href="/rooms"
+						className="rounded-full p-2 transition-colors hover:bg-white/10"
+						aria-label="Back to rooms"
+					>
+						<ArrowLeftIcon className="h-6 w-6" />
+					</Link>
+					<h1 className="text-3xl font-bold tracking-tight">
+						Room <span className="font-mono">{code.toUpperCase()}</span>
+					</h1>
+					<button
+						onClick={() => navigator.clipboard?.writeText(code.toUpperCase())}
+						className="rounded-full p-2 transition-colors hover:bg-white/10"
+						aria-label="Copy room code"
+					>
+						<ClipboardDocumentIcon className="h-6 w-6" />
+					</button>
+					{room?.isParticipant && (
+						<button
+							onClick={handleLeave}
+							disabled={isLoading}
+							className="ml-auto rounded-full bg-white/10 px-4 py-2 text-sm font-medium transition-colors hover:bg-white/20"
+						>
+							{room.isHost ? "Close room" : "Leave"}
+						</button>
+					)}
+				</div>
+			</header>
+
+			<main className="mx-auto max-w-4xl space-y-10 px-6 py-12">
+				{error && (
+					<div className="rounded-lg border border-red-200 bg-red-50 p-4 text-center text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400">
+						<p className="font-medium">Oops! {error}</p>
+					</div>
+				)}
+
+				{!room && !error && (
+					<div className="flex justify-center py-12">
+						<div className="h-8 w-8 animate-spin rounded-full border-2 border-red-600 border-t-transparent" />
+					</div>
+				)}
+
+				{room && !room.isParticipant && (
+					<section className="flex flex-col gap-3 rounded-2xl bg-white p-6 shadow-lg sm:flex-row dark:bg-gray-900">
+						<input
+							value={name}
+							onChange={(event) => setName(event.target.value)}
+							maxLength={30}
+							placeholder="Your name"
+							disabled={isLoading}
+							className="flex-1 rounded-xl border-2 border-gray-300 bg-white px-4 py-3 text-gray-900 focus:border-red-500 focus:outline-none dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+						/>
+						<button
+							onClick={handleJoin}
+							disabled={isLoading || !name.trim()}
+							className="rounded-lg bg-red-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+						>
+							Join this room
+						</button>
+					</section>
+				)}
+
+				{/* Tournament */}
+				{room && tournament && (
+					<section className="space-y-6">
+						<div className="text-center">
+							<h2 className="text-xl font-bold text-gray-900 dark:text-white">
+								Round {tournament.round} · {tournament.candidates.length}{" "}
+								left
+							</h2>
+							<p className="text-sm text-gray-600 dark:text-gray-400">
+								{tournament.votersDone} of {room.participants.length} done
+								voting. The top half of each round goes through.
+							</p>
+						</div>
+
+						{room.isParticipant && nextCandidate && (
+							<SwipeCard
+								key={`${tournament.round}-${nextCandidate.id}`}
+								show={nextCandidate}
+								onVote={(vote) => handleVote(nextCandidate.id, vote)}
+								disabled={isLoading}
+							/>
+						)}
+
+						{room.isParticipant && !nextCandidate && (
+							<p className="text-center text-gray-600 dark:text-gray-400">
+								All swiped. Waiting for the others...
+							</p>
+						)}
+
+						{room.isHost && (
+							<div className="flex flex-wrap justify-center gap-4">
+								<button
+									onClick={handleAdvance}
+									disabled={isLoading}
+									className="rounded-lg border-2 border-gray-300 px-6 py-3 font-semibold text-gray-700 transition-all hover:border-gray-400 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:border-gray-500 dark:hover:bg-gray-800"
+								>
+									Close this round now
+								</button>
+								<button
+									onClick={handleCancelTournament}
+									disabled={isLoading}
+									className="px-6 py-3 font-semibold text-gray-500 transition-colors hover:text-red-600 disabled:opacity-50"
+								>
+									Cancel tournament
+								</button>
+							</div>
+						)}
+					</section>
+				)}
+
+				{/* Last Round Tally */}
+				{lastRound && (
+					<section className="rounded-2xl bg-white p-6 shadow-lg dark:bg-gray-900">
+						<h3 className="mb-3 font-semibold text-gray-900 dark:text-white">
+							Round {lastRound.round} results
+						</h3>
+						<ol className="space-y-1 text-sm">
+							{lastRound.tallies.map((tally) => (
+								<li
+									key={tally.showId}
+									className={`flex justify-between gap-4 ${
+										tally.advanced
+											? "text-gray-900 dark:text-white"
+											: "text-gray-400 line-through"
+									}`}
+								>
+									<span>{tally.title}</span>
+									<span className="whitespace-nowrap">
+										{tally.keeps} keep · {tally.skips} skip
+									</span>
+								</li>
+							))}
+						</ol>
+					</section>
+				)}
+
+				{/* Result */}
+				{room?.result && (
+					<section className="space-y-4">
+						<p className="text-center font-medium text-gray-700 dark:text-gray-300">
+							{room.tournament?.finished && "Tournament winner! "}
+							{room.result.compromise
+								? `Nothing suited everyone. Best compromise: suits ${room.result.satisfiedMembers} of ${room.result.participantCount}.`
+								: "Everyone's wishes are met."}
+						</p>
+						<ContentCard
+							show={room.result.show}
+							country={room.country}
+							onNewPick={room.isHost ? handlePick : undefined}
+						/>
+					</section>
+				)}
+
+				{/* Participants */}
+				{room && (
+					<section>
+						<h2 className="mb-4 text-xl font-bold text-gray-900 dark:text-white">
+							Who&apos;s watching ({room.participants.length})
+						</h2>
+						<ul className="space-y-3">
+							<AnimatePresence>
+								{room.participants.map((participant) => (
+									<motion.li
+										key={participant.id}
+										className="flex items-center gap-3 rounded-xl bg-white p-4 shadow dark:bg-gray-900"
+										initial={{ opacity: 0, y: 20 }}
+										animate={{ opacity: 1, y: 0 }}
+										exit={{ opacity: 0, x: -50 }}
+										layout
+									>
+										<div className="flex h-10 w-10 items-center justify-center rounded-full bg-red-100 font-bold text-red-700 dark:bg-red-900/30 dark:text-red-400">
+											{participant.name.charAt(0).toUpperCase()}
+										</div>
+										<div className="flex-1">
+											<p className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+												{participant.name}
+												{participant.isYou && (
+													<span className="text-sm font-normal text-gray-500">
+														(you)
+													</span>
+												)}
+												{participant.isHost && (
+													<StarIcon
+														className="h-4 w-4 text-yellow-500"
+														aria-label="Host"
+													/>
+												)}
+											</p>
+											<p className="text-sm text-gray-600 dark:text-gray-400">
+												{describe(participant.preferences)}
+											</p>
+										</div>
+									</motion.li>
+								))}
+							</AnimatePresence>
+						</ul>
+					</section>
+				)}
+
+				{/* Your Preferences */}
+				{room?.isParticipant && (
+					<section className="space-y-8 rounded-2xl bg-white p-6 shadow-lg dark:bg-gray-900">
+						<h2 className="text-xl font-bold text-gray-900 dark:text-white">
+							Your wishes
+						</h2>
+						<TypeSelector
+							selectedType={showType}
+							onTypeChange={edit(setShowType)}
+							disabled={isLoading}
+						/>
+						<TimeSelector
+							maxMinutes={maxMinutes}
+							onMaxMinutesChange={edit(setMaxMinutes)}
+							disabled={isLoading}
+						/>
+						<GenreSelector
+							selectedGenres={genres}
+							onGenresChange={edit(setGenres)}
+							disabled={isLoading}
+						/>
+						<GenreSelector
+							title="Veto anything?"
+							selectedGenres={vetoedGenres}
+							onGenresChange={edit(setVetoedGenres)}
+							disabled={isLoading}
+						/>
+						<div className="flex flex-wrap justify-center gap-4">
+							<button
+								onClick={handleSavePreferences}
+								disabled={isLoading || !isDirty}
+								className="rounded-lg border-2 border-gray-300 px-6 py-3 font-semibold text-gray-700 transition-all hover:border-gray-400 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:border-gray-500 dark:hover:bg-gray-800"
+							>
+								{isDirty ? "Save my wishes" : "Wishes saved"}
+							</button>
+							{room.isHost ? (
+								<>
+									<button
+										onClick={handlePick}
+										disabled={isLoading || isDirty}
+										className="rounded-lg bg-red-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+									>
+										{room.result ? "Pick again" : "Pick for the group"}
+									</button>
+									<button
+										onClick={handleStartTournament}
+										disabled={isLoading || isDirty}
+										className="rounded-lg border-2 border-red-600 px-6 py-3 font-semibold text-red-600 transition-colors hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50 dark:hover:bg-red-900/20"
+									>
+										{tournament ? "Restart tournament" : "Swipe tournament"}
+									</button>
+								</>
+							) : (
+								<p className="self-center text-sm text-gray-500 dark:text-gray-400">
+									The host picks once everyone is in.
+								</p>
+							)}
+						</div>
+					</section>
+				)}
+			</main>
+		</div>
+	);
+}
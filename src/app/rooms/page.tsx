@@ -0,0 +1,161 @@
+"use client";
+import { useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeftIcon, UserGroupIcon } from "@heroicons/react/24/outline";
+import CountrySelector from "@/components/CountrySelector";
+import ServiceSelector from "@/components/ServiceSelector";
+
+const ROOM_CODE_PATTERN = /^[A-HJKMNP-Z2-9]{6}$/;
+
+export default function RoomsPage() {
+	const router = useRouter();
+	const [name, setName] = useState("");
+	const [code, setCode] = useState("");
+	const [country, setCountry] = useState("us");
+	const [services, setServices] = useState<string[]>(["netflix"]);
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const handleCreate = useCallback(async () => {
+		setIsLoading(true);
+		setError(null);
+
+		try {
+			const response = await fetch("/api/rooms", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ name: name.trim(), country, services }),
+			});
+			const data = await response.json();
+
+			if (!response.ok || !data.success) {
+				throw new Error(data.error || "Failed to open room");
+			}
+
+			router.push(`/rooms/${data.data.room.code}`);
+		} catch (err) {
+			console.error("Room error:", err);
+			setError(err instanceof Error ? err.message : "Something went wrong");
+			setIsLoading(false);
+		}
+	}, [name, country, services, router]);
+
+	const handleJoin = useCallback(async () => {
+		const roomCode = code.trim().toUpperCase();
+		setIsLoading(true);
+		setError(null);
+
+		try {
+			const response = await fetch(`/api/rooms/${roomCode}/participants`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ name: name.trim() }),
+			});
+			const data = await response.json();
+
+			if (!response.ok || !data.success) {
+				throw new Error(data.error || "Failed to join room");
+			}
+
+			router.push(`/rooms/${roomCode}`);
+		} catch (err) {
+			console.error("Room error:", err);
+			setError(err instanceof Error ? err.message : "Something went wrong");
+			setIsLoading(false);
+		}
+	}, [code, name, router]);
+
+	const hasName = name.trim().length > 0;
+
+	return (
+		<div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+			{/* Header */}
+			<header className="bg-gradient-to-r from-red-600 to-red-700 text-white">
+				<div className="mx-auto flex max-w-4xl items-center gap-4 px-6 py-8">
+					<Link
+						href="/"
+						className="rounded-full p-2 transition-colors hover:bg-white/10"
+						aria-label="Back to NetPick"
+					>
+						<ArrowLeftIcon className="h-6 w-6" />
+					</Link>
+					<h1 className="text-3xl font-bold tracking-tight">Movie Night</h1>
+				</div>
+			</header>
+
+			<main className="mx-auto max-w-4xl space-y-8 px-6 py-12">
+				{error && (
+					<div className="rounded-lg border border-red-200 bg-red-50 p-4 text-center text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400">
+						<p className="font-medium">Oops! {error}</p>
+					</div>
+				)}
+
+				<div>
+					<label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+						Your name
+					</label>
+					<input
+						value={name}
+						onChange={(event) => setName(event.target.value)}
+						maxLength={30}
+						placeholder="How the group sees you"
+						disabled={isLoading}
+						className="w-full rounded-xl border-2 border-gray-300 bg-white px-4 py-3 text-gray-900 focus:border-red-500 focus:outline-none dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+					/>
+				</div>
+
+				<div className="grid gap-8 md:grid-cols-2">
+					{/* Open a Room */}
+					<section className="space-y-4 rounded-2xl bg-white p-6 shadow-lg dark:bg-gray-900">
+						<h2 className="text-xl font-bold text-gray-900 dark:text-white">
+							Host a room
+						</h2>
+						<CountrySelector
+							selectedCountry={country}
+							onCountryChange={setCountry}
+							disabled={isLoading}
+						/>
+						<ServiceSelector
+							selectedServices={services}
+							onServicesChange={setServices}
+							disabled={isLoading}
+						/>
+						<button
+							onClick={handleCreate}
+							disabled={isLoading || !hasName || services.length === 0}
+							className="flex w-full items-center justify-center gap-2 rounded-lg bg-red-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+						>
+							<UserGroupIcon className="h-5 w-5" />
+							Open a room
+						</button>
+					</section>
+
+					{/* Join a Room */}
+					<section className="space-y-4 rounded-2xl bg-white p-6 shadow-lg dark:bg-gray-900">
+						<h2 className="text-xl font-bold text-gray-900 dark:text-white">
+							Join a room
+						</h2>
+						<input
+							value={code}
+							onChange={(event) => setCode(event.target.value.toUpperCase())}
+							maxLength={6}
+							placeholder="Room code"
+							disabled={isLoading}
+							className="w-full rounded-xl border-2 border-gray-300 bg-white px-4 py-3 text-center font-mono text-2xl tracking-widest text-gray-900 focus:border-red-500 focus:outline-none dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+						/>
+						<button
+							onClick={handleJoin}
+							disabled={
+								isLoading || !hasName || !ROOM_CODE_PATTERN.test(code.trim())
+							}
+							className="w-full rounded-lg border-2 border-gray-300 px-6 py-3 font-semibold text-gray-700 transition-all hover:border-gray-400 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:border-gray-500 dark:hover:bg-gray-800"
+						>
+							Join
+						</button>
+					</section>
+				</div>
+			</main>
+		</div>
+	);
+}
@@ -0,0 +1,213 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { motion, AnimatePresence } from "motion/react";
+import Image from "next/image";
+import Link from "next/link";
+import {
+	ArrowLeftIcon,
+	ArrowTopRightOnSquareIcon,
+	TrashIcon,
+} from "@heroicons/react/24/outline";
+
+interface WatchlistItem {
+	showId: string;
+	title: string;
+	showType: "movie" | "series";
+	year?: number;
+	poster?: string;
+	country: string;
+	addedAt: string;
+	availability: {
+		country: string;
+		available: boolean | null; // null when the lookup failed
+		netflix: boolean | null;
+		watchLinks: Array<{
+			serviceId: string;
+			serviceName: string;
+			link: string;
+		}>;
+	};
+}
+
+export default function WatchlistPage() {
+	const [items, setItems] = useState<WatchlistItem[]>([]);
+	const [isLoading, setIsLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		fetch("/api/watchlist")
+			.then(async (response) => {
+				const data = await response.json();
+
+				if (!response.ok || !data.success) {
+					throw new Error(data.error || "Failed to load watchlist");
+				}
+
+				setItems(data.data.watchlist);
+			})
+			.catch((err) => {
+				console.error("Watchlist error:", err);
+				setError(
+					err instanceof Error ? err.message : "Something went wrong"
+				);
+			})
+			.finally(() => setIsLoading(false));
+	}, []);
+
+	const handleRemove = useCallback(async (showId: string) => {
+		try {
+			const response = await fetch(
+				`/api/watchlist?showId=${encodeURIComponent(showId)}`,
+				{ method: "DELETE" }
+			);
+
+			if (!response.ok) {
+				throw new Error("Failed to remove from watchlist");
+			}
+
+			setItems((current) => current.filter((item) => item.showId !== showId));
+		} catch (err) {
+			console.error("Watchlist error:", err);
+			setError(err instanceof Error ? err.message : "Something went wrong");
+		}
+	}, []);
+
+	return (
+		<div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+			{/* Header */}
+			<header className="bg-gradient-to-r from-red-600 to-red-700 text-white">
+				<div className="mx-auto flex max-w-4xl items-center gap-4 px-6 py-8">
+					<Link
+						href="/"
+						className="rounded-full p-2 transition-colors hover:bg-white/10"
+						aria-label="Back to NetPick"
+					>
+						<ArrowLeftIcon className="h-6 w-6" />
+					</Link>
+					<h1 className="text-3xl font-bold tracking-tight">Your Watchlist</h1>
+				</div>
+			</header>
+
+			<main className="mx-auto max-w-4xl px-6 py-12">
+				{error && (
+					<div className="mb-8 rounded-lg border border-red-200 bg-red-50 p-4 text-center text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400">
+						<p className="font-medium">Oops! {error}</p>
+					</div>
+				)}
+
+				{isLoading && (
+					<div className="flex justify-center py-12">
+						<div className="h-8 w-8 animate-spin rounded-full border-2 border-red-600 border-t-transparent" />
+					</div>
+				)}
+
+				{!isLoading && !error && items.length === 0 && (
+					<div className="text-center text-gray-600 dark:text-gray-400">
+						<p className="mb-4 text-lg">Nothing saved yet.</p>
+						<Link
+							href="/"
+							className="font-semibold text-red-600 hover:underline dark:text-red-400"
+						>
+							Discover something to watch
+						</Link>
+					</div>
+				)}
+
+				<ul className="space-y-4">
+					<AnimatePresence>
+						{items.map((item) => (
+							<motion.li
+								key={item.showId}
+								className="flex gap-4 overflow-hidden rounded-xl bg-white p-4 shadow-lg dark:bg-gray-900"
+								initial={{ opacity: 0, y: 20 }}
+								animate={{ opacity: 1, y: 0 }}
+								exit={{ opacity: 0, x: -50 }}
+								layout
+							>
+								<div className="relative h-36 w-24 flex-shrink-0 overflow-hidden rounded-lg bg-gray-200 dark:bg-gray-800">
+									{item.poster && (
+										<Image
+											src={item.poster}
+											alt={`${item.title} poster`}
+											fill
+											className="object-cover"
+											sizes="96px"
+										/>
+									)}
+								</div>
+
+								<div className="flex flex-1 flex-col">
+									<div className="flex items-start justify-between gap-2">
+										<div>
+											<h2 className="text-lg font-bold text-gray-900 dark:text-white">
+												<Link
+													href={`/?show=${encodeURIComponent(
+														item.showId
+													)}&country=${item.availability.country}`}
+													className="hover:underline"
+												>
+													{item.title}
+												</Link>
+											</h2>
+											<p className="text-sm text-gray-600 dark:text-gray-400">
+												{item.showType === "movie" ? "Movie" : "Series"}
+												{item.year && ` · ${item.year}`}
+												{" · saved "}
+												{new Date(item.addedAt).toLocaleDateString()}
+											</p>
+										</div>
+										<button
+											onClick={() => handleRemove(item.showId)}
+											className="rounded-full p-2 text-gray-400 transition-colors hover:bg-gray-100 hover:text-red-600 dark:hover:bg-gray-800"
+											aria-label={`Remove ${item.title} from watchlist`}
+										>
+											<TrashIcon className="h-5 w-5" />
+										</button>
+									</div>
+
+									{/* Availability */}
+									<div className="mt-auto flex flex-wrap items-center gap-2 pt-3 text-sm">
+										{item.availability.available === null ? (
+											<span className="rounded-full bg-gray-100 px-3 py-1 text-gray-600 dark:bg-gray-800 dark:text-gray-400">
+												Availability unknown
+											</span>
+										) : item.availability.watchLinks.length > 0 ? (
+											item.availability.watchLinks.map((watchLink) => (
+												<a
+													key={watchLink.serviceId}
+													href={watchLink.link}
+													target="_blank"
+													rel="noopener noreferrer"
+													className={`flex items-center gap-1 rounded-full px-3 py-1 font-medium text-white ${
+														watchLink.serviceId === "netflix"
+															? "bg-red-600 hover:bg-red-700"
+															: "bg-gray-700 hover:bg-gray-800"
+													}`}
+												>
+													<ArrowTopRightOnSquareIcon className="h-4 w-4" />
+													{watchLink.serviceName}
+												</a>
+											))
+										) : (
+											<span className="rounded-full bg-gray-100 px-3 py-1 text-gray-600 dark:bg-gray-800 dark:text-gray-400">
+												Not streaming in{" "}
+												{item.availability.country.toUpperCase()}
+											</span>
+										)}
+										{item.availability.available &&
+											!item.availability.netflix && (
+												<span className="text-gray-500 dark:text-gray-400">
+													Not on Netflix in{" "}
+													{item.availability.country.toUpperCase()}
+												</span>
+											)}
+									</div>
+								</div>
+							</motion.li>
+						))}
+					</AnimatePresence>
+				</ul>
+			</main>
+		</div>
+	);
+}
@@ -6,55 +6,128 @@ import {
 	StarIcon,
 	CalendarIcon,
 	ClockIcon,
+	BookmarkIcon,
+	HandThumbDownIcon,
 } from "@heroicons/react/24/outline";
+import { BookmarkIcon as BookmarkSolidIcon } from "@heroicons/react/24/solid";
+import type { ShowPayload } from "@/lib/utils/showPayload";
 
-interface Show {
-	id: string;
-	title: string;
-	originalTitle: string;
-	overview: string;
-	showType: "movie" | "series";
-	releaseYear?: number;
-	firstAirYear?: number;
-	lastAirYear?: number;
-	rating: number;
-	genres: Array<{ id: string; name: string }>;
-	runtime?: number;
-	seasonCount?: number;
-	episodeCount?: number;
-	cast: string[];
-	directors?: string[];
-	creators?: string[];
-	images: {
-		poster: string;
-		backdrop: string;
-	};
-	netflixLink?: string;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NEW_ARRIVAL_DAYS = 31;
+
+// Lowest first, badge labels as sold on TVs
+const QUALITY_LABELS: Record<string, string> = {
+	sd: "SD",
+	hd: "HD",
+	qhd: "QHD",
+	uhd: "4K",
+};
+const QUALITY_ORDER = Object.keys(QUALITY_LABELS);
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+// Upstream codes are ISO 639-2; fall back to the code when the name is unknown
+function getLanguageName(code: string): string {
+	try {
+		return languageNames.of(code) || code;
+	} catch {
+		return code;
+	}
 }
 
 interface ContentCardProps {
-	show: Show;
+	show: ShowPayload;
 	country: string;
 	onNewPick?: () => void;
+	isSaved?: boolean;
+	onSave?: () => void;
+	onNotInterested?: () => void;
 }
 
 export default function ContentCard({
 	show,
 	country,
 	onNewPick,
+	isSaved = false,
+	onSave,
+	onNotInterested,
 }: ContentCardProps) {
 	const year = show.releaseYear || show.firstAirYear;
 	const duration =
 		show.showType === "movie"
 			? `${show.runtime}min`
 			: show.seasonCount
-			? `${show.seasonCount} season${show.seasonCount > 1 ? "s" : ""}`
+			? `${show.seasonCount} season${show.seasonCount > 1 ? "s" : ""}${
+					show.episodeRuntime ? ` · ~${show.episodeRuntime}min/episode` : ""
+			  }`
 			: "";
 
-	const handleWatchOnNetflix = () => {
-		if (show.netflixLink) {
-			window.open(show.netflixLink, "_blank", "noopener,noreferrer");
+	const watchLinks = show.watchLinks || [];
+
+	// Earliest announced leaving date among the services in this country
+	const expiresOn = watchLinks.reduce<number | undefined>(
+		(earliest, link) =>
+			link.expiresOn && (!earliest || link.expiresOn < earliest)
+				? link.expiresOn
+				: earliest,
+		undefined
+	);
+	const daysLeft = expiresOn
+		? Math.ceil((expiresOn * 1000 - Date.now()) / DAY_MS)
+		: undefined;
+
+	// Most recent arrival among the services, badged for the first month
+	const addedOn = watchLinks.reduce<number | undefined>(
+		(latest, link) =>
+			link.availableSince && (!latest || link.availableSince > latest)
+				? link.availableSince
+				: latest,
+		undefined
+	);
+	const daysSinceAdded = addedOn
+		? Math.floor((Date.now() - addedOn * 1000) / DAY_MS)
+		: undefined;
+	const isNewArrival =
+		daysSinceAdded !== undefined &&
+		daysSinceAdded >= 0 &&
+		daysSinceAdded <= NEW_ARRIVAL_DAYS;
+
+	// Best video quality among the services
+	const bestQuality = watchLinks.reduce<string | undefined>(
+		(best, link) =>
+			link.quality &&
+			QUALITY_ORDER.indexOf(link.quality) >
+				(best ? QUALITY_ORDER.indexOf(best) : -1)
+				? link.quality
+				: best,
+		undefined
+	);
+
+	// Languages across the services, closed captions noted per subtitle language
+	const audioLanguages = Array.from(
+		new Set(
+			watchLinks.flatMap((link) =>
+				(link.audios || []).map((locale) => locale.language)
+			)
+		)
+	).map(getLanguageName);
+	const subtitleCaptions = new Map<string, boolean>();
+	for (const link of watchLinks) {
+		for (const track of link.subtitles || []) {
+			const language = track.locale.language;
+			subtitleCaptions.set(
+				language,
+				subtitleCaptions.get(language) || track.closedCaptions
+			);
 		}
+	}
+	const subtitleLanguages = Array.from(subtitleCaptions.entries()).map(
+		([language, closedCaptions]) =>
+			`${getLanguageName(language)}${closedCaptions ? " (CC)" : ""}`
+	);
+
+	const handleWatch = (link: string) => {
+		window.open(link, "_blank", "noopener,noreferrer");
 	};
 
 	return (
@@ -77,14 +150,16 @@ export default function ContentCard({
 					animate={{ opacity: 1, x: 0 }}
 					transition={{ delay: 0.2, duration: 0.6 }}
 				>
-					<Image
-						src={show.images.poster}
-						alt={`${show.title} poster`}
-						fill
-						className="object-cover"
-						sizes="(max-width: 768px) 100vw, 33vw"
-						priority
-					/>
+					{show.images.poster && (
+						<Image
+							src={show.images.poster}
+							alt={`${show.title} poster`}
+							fill
+							className="object-cover"
+							sizes="(max-width: 768px) 100vw, 33vw"
+							priority
+						/>
+					)}
 
 					{/* Rating Badge */}
 					<motion.div
@@ -97,15 +172,77 @@ export default function ContentCard({
 						<span>{(show.rating / 10).toFixed(1)}</span>
 					</motion.div>
 
-					{/* Show Type Badge */}
-					<motion.div
-						className="absolute top-4 left-4 rounded-full bg-red-600 px-3 py-1 text-xs font-bold uppercase text-white"
-						initial={{ opacity: 0, scale: 0 }}
-						animate={{ opacity: 1, scale: 1 }}
-						transition={{ delay: 0.4 }}
-					>
-						{show.showType}
-					</motion.div>
+					<div className="absolute top-4 left-4 flex gap-2">
+						{/* Show Type Badge */}
+						<motion.div
+							className="rounded-full bg-red-600 px-3 py-1 text-xs font-bold uppercase text-white"
+							initial={{ opacity: 0, scale: 0 }}
+							animate={{ opacity: 1, scale: 1 }}
+							transition={{ delay: 0.4 }}
+						>
+							{show.showType}
+						</motion.div>
+
+						{/* Quality Badge */}
+						{bestQuality && QUALITY_LABELS[bestQuality] && (
+							<motion.div
+								className="rounded-full bg-black/70 px-3 py-1 text-xs font-bold text-white backdrop-blur-sm"
+								initial={{ opacity: 0, scale: 0 }}
+								animate={{ opacity: 1, scale: 1 }}
+								transition={{ delay: 0.45 }}
+								title={`Streams in up to ${QUALITY_LABELS[bestQuality]}`}
+							>
+								{QUALITY_LABELS[bestQuality]}
+							</motion.div>
+						)}
+					</div>
+
+					{/* New Arrival Badge */}
+					{isNewArrival && addedOn && !expiresOn && (
+						<motion.div
+							className="absolute bottom-4 left-4 flex items-center gap-1 rounded-full bg-emerald-600 px-3 py-1 text-xs font-bold text-white shadow-lg"
+							initial={{ opacity: 0, scale: 0 }}
+							animate={{ opacity: 1, scale: 1 }}
+							transition={{ delay: 0.6 }}
+							title={`Added in ${country.toUpperCase()} on ${new Date(
+								addedOn * 1000
+							).toLocaleDateString()}`}
+						>
+							<CalendarIcon className="h-4 w-4" />
+							<span>
+								{daysSinceAdded === 0
+									? "Added today"
+									: daysSinceAdded === 1
+									? "Added yesterday"
+									: `Added ${daysSinceAdded} days ago`}
+							</span>
+						</motion.div>
+					)}
+
+					{/* Leaving Soon Badge */}
+					{expiresOn && daysLeft !== undefined && daysLeft >= 0 && (
+						<motion.div
+							className="absolute bottom-4 left-4 flex items-center gap-1 rounded-full bg-amber-500 px-3 py-1 text-xs font-bold text-white shadow-lg"
+							initial={{ opacity: 0, scale: 0 }}
+							animate={{ opacity: 1, scale: 1 }}
+							transition={{ delay: 0.6 }}
+							title={`Leaving ${country.toUpperCase()} on ${new Date(
+								expiresOn * 1000
+							).toLocaleString()}`}
+						>
+							<ClockIcon className="h-4 w-4" />
+							<span>
+								{daysLeft <= 1
+									? "Last day"
+									: `${daysLeft} days left`}
+								{" · "}
+								{new Date(expiresOn * 1000).toLocaleDateString(
+									undefined,
+									{ month: "short", day: "numeric", year: "numeric" }
+								)}
+							</span>
+						</motion.div>
+					)}
 				</motion.div>
 
 				{/* Content Section */}
@@ -167,13 +304,13 @@ export default function ContentCard({
 							<div className="flex flex-wrap gap-2">
 								{show.genres.slice(0, 4).map((genre, index) => (
 									<motion.span
-										key={`genre-${index}-${genre.name || genre.id || index}`}
+										key={genre.id}
 										className="rounded-full bg-red-100 px-3 py-1 text-sm font-medium text-red-800 dark:bg-red-900/20 dark:text-red-400"
 										initial={{ opacity: 0, scale: 0 }}
 										animate={{ opacity: 1, scale: 1 }}
 										transition={{ delay: 0.7 + index * 0.1 }}
 									>
-										{genre.name || genre.id || 'Unknown'}
+										{genre.name}
 									</motion.span>
 								))}
 							</div>
@@ -192,6 +329,33 @@ export default function ContentCard({
 						</p>
 					</motion.div>
 
+					{/* Languages */}
+					{(audioLanguages.length > 0 || subtitleLanguages.length > 0) && (
+						<motion.div
+							className="mb-6 space-y-1 text-sm text-gray-600 dark:text-gray-400"
+							initial={{ opacity: 0, y: 20 }}
+							animate={{ opacity: 1, y: 0 }}
+							transition={{ delay: 0.85 }}
+						>
+							{audioLanguages.length > 0 && (
+								<p>
+									<span className="font-semibold text-gray-900 dark:text-white">
+										Audio:
+									</span>{" "}
+									{audioLanguages.join(", ")}
+								</p>
+							)}
+							{subtitleLanguages.length > 0 && (
+								<p>
+									<span className="font-semibold text-gray-900 dark:text-white">
+										Subtitles:
+									</span>{" "}
+									{subtitleLanguages.join(", ")}
+								</p>
+							)}
+						</motion.div>
+					)}
+
 					{/* Cast */}
 					{show.cast && show.cast.length > 0 && (
 						<motion.div
@@ -212,40 +376,90 @@ export default function ContentCard({
 
 					{/* Action Buttons */}
 					<motion.div
-						className="flex flex-col gap-3 sm:flex-row"
+						className="flex flex-col gap-3 sm:flex-row sm:flex-wrap"
 						initial={{ opacity: 0, y: 20 }}
 						animate={{ opacity: 1, y: 0 }}
 						transition={{ delay: 1.0 }}
 					>
-						{/* Watch on Netflix Button */}
-						<motion.button
-							onClick={handleWatchOnNetflix}
-							disabled={!show.netflixLink}
-							className={`
-                flex items-center justify-center gap-2 rounded-lg px-6 py-3 font-semibold transition-all
-                ${
-					show.netflixLink
-						? "bg-red-600 text-white hover:bg-red-700 hover:shadow-lg"
-						: "bg-gray-300 text-gray-500 cursor-not-allowed dark:bg-gray-700 dark:text-gray-400"
-				}
-              `}
-							whileHover={show.netflixLink ? { scale: 1.02 } : {}}
-							whileTap={show.netflixLink ? { scale: 0.98 } : {}}
-						>
-							<ArrowTopRightOnSquareIcon className="h-5 w-5" />
-							Watch on Netflix
-						</motion.button>
+						{/* Watch on Service Buttons */}
+						{watchLinks.map((watchLink) => (
+							<motion.button
+								key={watchLink.serviceId}
+								onClick={() => handleWatch(watchLink.link)}
+								className={`
+                  flex items-center justify-center gap-2 rounded-lg px-6 py-3 font-semibold text-white transition-all hover:shadow-lg
+                  ${watchLink.serviceId === "netflix" ? "bg-red-600 hover:bg-red-700" : ""}
+                `}
+								style={
+									watchLink.serviceId !== "netflix"
+										? { backgroundColor: watchLink.themeColorCode || "#374151" }
+										: undefined
+								}
+								whileHover={{ scale: 1.02 }}
+								whileTap={{ scale: 0.98 }}
+							>
+								<ArrowTopRightOnSquareIcon className="h-5 w-5" />
+								Watch on {watchLink.serviceName}
+							</motion.button>
+						))}
+
+						{/* Not streamable in this country */}
+						{watchLinks.length === 0 && (
+							<button
+								disabled
+								className="flex items-center justify-center gap-2 rounded-lg bg-gray-300 px-6 py-3 font-semibold text-gray-500 cursor-not-allowed dark:bg-gray-700 dark:text-gray-400"
+							>
+								<ArrowTopRightOnSquareIcon className="h-5 w-5" />
+								Not streaming in {country.toUpperCase()}
+							</button>
+						)}
 
 						{/* Try Another Button */}
-						<motion.button
-							onClick={onNewPick}
-							className="rounded-lg border-2 border-gray-300 px-6 py-3 font-semibold text-gray-700 transition-all hover:border-gray-400 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:border-gray-500 dark:hover:bg-gray-800"
-							whileHover={{ scale: 1.02 }}
-							whileTap={{ scale: 0.98 }}
-						>
-							Try Another
-						</motion.button>
+						{onNewPick && (
+							<motion.button
+								onClick={onNewPick}
+								className="rounded-lg border-2 border-gray-300 px-6 py-3 font-semibold text-gray-700 transition-all hover:border-gray-400 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:border-gray-500 dark:hover:bg-gray-800"
+								whileHover={{ scale: 1.02 }}
+								whileTap={{ scale: 0.98 }}
+							>
+								Try Another
+							</motion.button>
+						)}
 					</motion.div>
+
+					{/* Feedback Buttons */}
+					{(onSave || onNotInterested) && (
+						<motion.div
+							className="mt-4 flex flex-wrap gap-4 text-sm"
+							initial={{ opacity: 0, y: 20 }}
+							animate={{ opacity: 1, y: 0 }}
+							transition={{ delay: 1.1 }}
+						>
+							{onSave && (
+								<button
+									onClick={onSave}
+									disabled={isSaved}
+									className="flex items-center gap-1 font-medium text-gray-600 transition-colors hover:text-red-600 disabled:cursor-default disabled:text-red-600 dark:text-gray-400 dark:hover:text-red-400 dark:disabled:text-red-400"
+								>
+									{isSaved ? (
+										<BookmarkSolidIcon className="h-5 w-5" />
+									) : (
+										<BookmarkIcon className="h-5 w-5" />
+									)}
+									{isSaved ? "On your watchlist" : "Save to watchlist"}
+								</button>
+							)}
+							{onNotInterested && (
+								<button
+									onClick={onNotInterested}
+									className="flex items-center gap-1 font-medium text-gray-600 transition-colors hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+								>
+									<HandThumbDownIcon className="h-5 w-5" />
+									Not interested
+								</button>
+							)}
+						</motion.div>
+					)}
 				</motion.div>
 			</div>
 		</motion.div>
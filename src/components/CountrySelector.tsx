@@ -37,15 +37,8 @@ export default function CountrySelector({
 				setCountries(data.data.countries);
 			}
 		} catch (error) {
+			// The API already falls back server-side; keep the current selection
 			console.error("Failed to fetch countries:", error);
-			// Fallback countries
-			setCountries([
-				{ code: "us", name: "United States", flag: "🇺🇸" },
-				{ code: "fr", name: "France", flag: "🇫🇷" },
-				{ code: "ca", name: "Canada", flag: "🇨🇦" },
-				{ code: "gb", name: "United Kingdom", flag: "🇬🇧" },
-				{ code: "de", name: "Germany", flag: "🇩🇪" },
-			]);
 		} finally {
 			setIsLoading(false);
 		}
@@ -90,7 +83,9 @@ export default function CountrySelector({
 					{selectedCountryData?.flag || "🌍"}
 				</span>
 				<span className="font-medium">
-					{selectedCountryData?.name || "Select Country"}
+					{selectedCountryData?.name ||
+						selectedCountry.toUpperCase() ||
+						"Select Country"}
 				</span>
 				<ChevronDownIcon
 					className={`h-4 w-4 transition-transform ${
@@ -114,7 +109,7 @@ export default function CountrySelector({
 
 						{/* Dropdown Menu */}
 						<motion.div
-							className="absolute top-full left-0 z-20 mt-2 w-full min-w-48 overflow-hidden rounded-lg border border-gray-200 bg-white shadow-lg dark:border-gray-600 dark:bg-gray-900"
+							className="absolute top-full left-0 z-20 mt-2 max-h-80 w-full min-w-48 overflow-y-auto rounded-lg border border-gray-200 bg-white shadow-lg dark:border-gray-600 dark:bg-gray-900"
 							initial={{ opacity: 0, y: -10, scale: 0.95 }}
 							animate={{ opacity: 1, y: 0, scale: 1 }}
 							exit={{ opacity: 0, y: -10, scale: 0.95 }}
@@ -141,7 +136,7 @@ export default function CountrySelector({
                     `}
 										initial={{ opacity: 0, x: -10 }}
 										animate={{ opacity: 1, x: 0 }}
-										transition={{ delay: index * 0.05 }}
+										transition={{ delay: Math.min(index * 0.02, 0.3) }}
 										whileHover={{
 											backgroundColor:
 												selectedCountry === country.code
@@ -0,0 +1,93 @@
+"use client";
+import { useState, useEffect } from "react";
+import { motion } from "motion/react";
+import { CheckIcon } from "@heroicons/react/24/outline";
+
+interface Genre {
+	id: string;
+	name: string;
+}
+
+interface GenreSelectorProps {
+	selectedGenres: string[];
+	onGenresChange: (genres: string[]) => void;
+	title?: string;
+	disabled?: boolean;
+}
+
+export default function GenreSelector({
+	selectedGenres,
+	onGenresChange,
+	title = "In the mood for something? (optional)",
+	disabled = false,
+}: GenreSelectorProps) {
+	const [genres, setGenres] = useState<Genre[]>([]);
+
+	useEffect(() => {
+		fetchGenres();
+	}, []);
+
+	const fetchGenres = async () => {
+		try {
+			const response = await fetch("/api/genres");
+			const data = await response.json();
+
+			if (data.success) {
+				setGenres(data.data.genres);
+			}
+		} catch (error) {
+			console.error("Failed to fetch genres:", error);
+		}
+	};
+
+	const toggleGenre = (genreId: string) => {
+		if (disabled) return;
+
+		onGenresChange(
+			selectedGenres.includes(genreId)
+				? selectedGenres.filter((id) => id !== genreId)
+				: [...selectedGenres, genreId]
+		);
+	};
+
+	if (genres.length === 0) {
+		return null;
+	}
+
+	return (
+		<div className="space-y-3">
+			<h3 className="text-center text-sm font-medium text-gray-600 dark:text-gray-400">
+				{title}
+			</h3>
+
+			<div className="flex flex-wrap justify-center gap-2">
+				{genres.map((genre) => {
+					const isSelected = selectedGenres.includes(genre.id);
+
+					return (
+						<motion.button
+							key={genre.id}
+							onClick={() => toggleGenre(genre.id)}
+							disabled={disabled}
+							className={`
+                flex items-center gap-1 rounded-full border px-3 py-1 text-sm font-medium transition-all
+                ${
+					isSelected
+						? "border-red-600 bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400"
+						: disabled
+						? "border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed dark:border-gray-700 dark:bg-gray-800"
+						: "border-gray-300 bg-white text-gray-700 hover:border-gray-400 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-300"
+				}
+              `}
+							whileHover={!disabled ? { scale: 1.05 } : {}}
+							whileTap={!disabled ? { scale: 0.95 } : {}}
+						>
+							{isSelected && <CheckIcon className="h-4 w-4" />}
+							{genre.name}
+						</motion.button>
+					);
+				})}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,71 @@
+"use client";
+import { motion } from "motion/react";
+import {
+	SparklesIcon,
+	ClockIcon,
+	GiftIcon,
+} from "@heroicons/react/24/outline";
+
+type DiscoverMode = "random" | "leaving-soon" | "new-arrivals";
+
+interface ModeSelectorProps {
+	selectedMode: DiscoverMode;
+	onModeChange: (mode: DiscoverMode) => void;
+	disabled?: boolean;
+}
+
+const modes = [
+	{
+		id: "random" as DiscoverMode,
+		label: "Anything",
+		icon: SparklesIcon,
+	},
+	{
+		id: "new-arrivals" as DiscoverMode,
+		label: "New arrivals",
+		icon: GiftIcon,
+	},
+	{
+		id: "leaving-soon" as DiscoverMode,
+		label: "Leaving soon",
+		icon: ClockIcon,
+	},
+];
+
+export default function ModeSelector({
+	selectedMode,
+	onModeChange,
+	disabled = false,
+}: ModeSelectorProps) {
+	return (
+		<div className="flex flex-wrap justify-center gap-2">
+			{modes.map((mode) => {
+				const isSelected = selectedMode === mode.id;
+				const Icon = mode.icon;
+
+				return (
+					<motion.button
+						key={mode.id}
+						onClick={() => !disabled && onModeChange(mode.id)}
+						disabled={disabled}
+						className={`
+              flex items-center gap-1 rounded-full border px-4 py-2 text-sm font-medium transition-all
+              ${
+					isSelected
+						? "border-red-600 bg-red-600 text-white"
+						: disabled
+						? "border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed dark:border-gray-700 dark:bg-gray-800"
+						: "border-gray-300 bg-white text-gray-700 hover:border-gray-400 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-300"
+				}
+            `}
+						whileHover={!disabled ? { scale: 1.05 } : {}}
+						whileTap={!disabled ? { scale: 0.95 } : {}}
+					>
+						<Icon className="h-4 w-4" />
+						{mode.label}
+					</motion.button>
+				);
+			})}
+		</div>
+	);
+}
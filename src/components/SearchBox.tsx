@@ -0,0 +1,183 @@
+"use client";
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "motion/react";
+import Image from "next/image";
+import { MagnifyingGlassIcon } from "@heroicons/react/24/outline";
+import type { ShowPayload } from "@/lib/utils/showPayload";
+
+type SearchResult = ShowPayload & { onNetflix: boolean };
+
+interface SearchBoxProps {
+	country: string;
+	onSelect: (show: SearchResult) => void;
+	disabled?: boolean;
+}
+
+const DEBOUNCE_MS = 350;
+const MIN_QUERY_LENGTH = 2;
+
+export default function SearchBox({
+	country,
+	onSelect,
+	disabled = false,
+}: SearchBoxProps) {
+	const [query, setQuery] = useState("");
+	const [results, setResults] = useState<SearchResult[]>([]);
+	const [isSearching, setIsSearching] = useState(false);
+	const [isOpen, setIsOpen] = useState(false);
+
+	useEffect(() => {
+		const trimmed = query.trim();
+
+		if (trimmed.length < MIN_QUERY_LENGTH) {
+			setResults([]);
+			setIsSearching(false);
+			return;
+		}
+
+		// Wait for typing to pause, and drop responses for outdated queries
+		const controller = new AbortController();
+		const timer = setTimeout(async () => {
+			setIsSearching(true);
+
+			try {
+				const params = new URLSearchParams({ q: trimmed, country });
+				const response = await fetch(`/api/search?${params.toString()}`, {
+					signal: controller.signal,
+				});
+				const data = await response.json();
+
+				if (data.success) {
+					setResults(data.data.results);
+					setIsOpen(true);
+				}
+			} catch (error) {
+				if (!controller.signal.aborted) {
+					console.error("Search error:", error);
+				}
+			} finally {
+				if (!controller.signal.aborted) {
+					setIsSearching(false);
+				}
+			}
+		}, DEBOUNCE_MS);
+
+		return () => {
+			clearTimeout(timer);
+			controller.abort();
+		};
+	}, [query, country]);
+
+	const handleSelect = (result: SearchResult) => {
+		onSelect(result);
+		setIsOpen(false);
+		setQuery("");
+	};
+
+	return (
+		<div className="relative">
+			{/* Search Input */}
+			<div className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 transition-all focus-within:border-gray-400 focus-within:shadow-md dark:border-gray-600 dark:bg-gray-900">
+				<MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+				<input
+					type="search"
+					value={query}
+					onChange={(event) => setQuery(event.target.value)}
+					onFocus={() => results.length > 0 && setIsOpen(true)}
+					disabled={disabled}
+					placeholder="Is it on Netflix? Search a title..."
+					className="w-full bg-transparent text-gray-700 outline-none placeholder:text-gray-400 disabled:cursor-not-allowed dark:text-gray-300"
+				/>
+				{isSearching && (
+					<motion.div
+						className="h-4 w-4 rounded-full border-2 border-gray-400 border-t-transparent"
+						animate={{ rotate: 360 }}
+						transition={{
+							duration: 1,
+							repeat: Infinity,
+							ease: "linear",
+						}}
+					/>
+				)}
+			</div>
+
+			{/* Results Dropdown */}
+			<AnimatePresence>
+				{isOpen && query.trim().length >= MIN_QUERY_LENGTH && (
+					<>
+						{/* Backdrop */}
+						<motion.div
+							className="fixed inset-0 z-10"
+							initial={{ opacity: 0 }}
+							animate={{ opacity: 1 }}
+							exit={{ opacity: 0 }}
+							onClick={() => setIsOpen(false)}
+						/>
+
+						<motion.div
+							className="absolute top-full left-0 z-20 mt-2 max-h-96 w-full overflow-y-auto rounded-lg border border-gray-200 bg-white shadow-lg dark:border-gray-600 dark:bg-gray-900"
+							initial={{ opacity: 0, y: -10, scale: 0.95 }}
+							animate={{ opacity: 1, y: 0, scale: 1 }}
+							exit={{ opacity: 0, y: -10, scale: 0.95 }}
+							transition={{
+								type: "spring",
+								stiffness: 400,
+								damping: 25,
+							}}
+						>
+							{results.length === 0 && !isSearching && (
+								<p className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+									No titles found
+								</p>
+							)}
+
+							{results.map((result, index) => (
+								<motion.button
+									key={result.id}
+									onClick={() => handleSelect(result)}
+									className="flex w-full items-center gap-3 px-4 py-3 text-left text-gray-700 transition-colors hover:bg-gray-50 dark:text-gray-300 dark:hover:bg-gray-800"
+									initial={{ opacity: 0, x: -10 }}
+									animate={{ opacity: 1, x: 0 }}
+									transition={{ delay: index * 0.03 }}
+								>
+									<div className="relative h-12 w-8 flex-shrink-0 overflow-hidden rounded bg-gray-200 dark:bg-gray-700">
+										{result.images.poster && (
+											<Image
+												src={result.images.poster}
+												alt={`${result.title} poster`}
+												fill
+												className="object-cover"
+												sizes="32px"
+											/>
+										)}
+									</div>
+									<div className="min-w-0 flex-1">
+										<div className="truncate font-medium">
+											{result.title}
+										</div>
+										<div className="text-xs text-gray-500 dark:text-gray-400">
+											{result.releaseYear || result.firstAirYear}
+											{" • "}
+											{result.showType === "movie" ? "Movie" : "Series"}
+										</div>
+									</div>
+									<span
+										className={`flex-shrink-0 rounded-full px-2 py-1 text-xs font-medium ${
+											result.onNetflix
+												? "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400"
+												: "bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-400"
+										}`}
+									>
+										{result.onNetflix
+											? "On Netflix"
+											: `Not in ${country.toUpperCase()}`}
+									</span>
+								</motion.button>
+							))}
+						</motion.div>
+					</>
+				)}
+			</AnimatePresence>
+		</div>
+	);
+}
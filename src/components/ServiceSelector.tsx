@@ -0,0 +1,68 @@
+"use client";
+import { motion } from "motion/react";
+import { CheckIcon } from "@heroicons/react/24/outline";
+import { SUPPORTED_SERVICES } from "@/lib/types/netflix";
+
+interface ServiceSelectorProps {
+	selectedServices: string[];
+	onServicesChange: (services: string[]) => void;
+	disabled?: boolean;
+}
+
+export default function ServiceSelector({
+	selectedServices,
+	onServicesChange,
+	disabled = false,
+}: ServiceSelectorProps) {
+	const toggleService = (serviceId: string) => {
+		if (disabled) return;
+
+		const isSelected = selectedServices.includes(serviceId);
+
+		// Keep at least one service selected
+		if (isSelected && selectedServices.length === 1) return;
+
+		onServicesChange(
+			isSelected
+				? selectedServices.filter((id) => id !== serviceId)
+				: [...selectedServices, serviceId]
+		);
+	};
+
+	return (
+		<div className="space-y-3">
+			<h3 className="text-center text-sm font-medium text-gray-600 dark:text-gray-400">
+				Which subscriptions do you have?
+			</h3>
+
+			<div className="flex flex-wrap justify-center gap-2">
+				{Object.entries(SUPPORTED_SERVICES).map(([id, name]) => {
+					const isSelected = selectedServices.includes(id);
+
+					return (
+						<motion.button
+							key={id}
+							onClick={() => toggleService(id)}
+							disabled={disabled}
+							className={`
+                flex items-center gap-1 rounded-full border px-3 py-1 text-sm font-medium transition-all
+                ${
+					isSelected
+						? "border-red-600 bg-red-600 text-white"
+						: disabled
+						? "border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed dark:border-gray-700 dark:bg-gray-800"
+						: "border-gray-300 bg-white text-gray-700 hover:border-gray-400 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-300"
+				}
+              `}
+							whileHover={!disabled ? { scale: 1.05 } : {}}
+							whileTap={!disabled ? { scale: 0.95 } : {}}
+						>
+							{isSelected && <CheckIcon className="h-4 w-4" />}
+							{name}
+						</motion.button>
+					);
+				})}
+			</div>
+		</div>
+	);
+}
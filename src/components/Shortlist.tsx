@@ -0,0 +1,94 @@
+"use client";
+import { motion } from "motion/react";
+import Image from "next/image";
+import { StarIcon } from "@heroicons/react/24/outline";
+
+interface ShortlistShow {
+	id: string;
+	title: string;
+	showType: "movie" | "series";
+	releaseYear?: number;
+	firstAirYear?: number;
+	rating: number;
+	genres: Array<{ id: string; name: string }>;
+	images: {
+		poster?: string;
+	};
+}
+
+interface ShortlistProps<T extends ShortlistShow> {
+	shows: T[];
+	onChoose: (show: T) => void;
+	onReroll?: () => void;
+}
+
+export default function Shortlist<T extends ShortlistShow>({
+	shows,
+	onChoose,
+	onReroll,
+}: ShortlistProps<T>) {
+	return (
+		<div className="space-y-6">
+			<div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+				{shows.map((show, index) => (
+					<motion.button
+						key={show.id}
+						onClick={() => onChoose(show)}
+						className="group overflow-hidden rounded-2xl bg-white text-left shadow-xl transition-shadow hover:shadow-2xl dark:bg-gray-900"
+						initial={{ opacity: 0, y: 30 }}
+						animate={{ opacity: 1, y: 0 }}
+						transition={{
+							delay: index * 0.1,
+							type: "spring",
+							stiffness: 260,
+							damping: 20,
+						}}
+						whileHover={{ y: -4 }}
+						whileTap={{ scale: 0.98 }}
+					>
+						<div className="relative aspect-[2/3]">
+							{show.images.poster && (
+								<Image
+									src={show.images.poster}
+									alt={`${show.title} poster`}
+									fill
+									className="object-cover"
+									sizes="(max-width: 640px) 100vw, 33vw"
+								/>
+							)}
+
+							{/* Rating Badge */}
+							<div className="absolute top-3 right-3 flex items-center gap-1 rounded-full bg-black/70 px-2 py-1 text-xs font-medium text-white backdrop-blur-sm">
+								<StarIcon className="h-3 w-3 text-yellow-400" />
+								<span>{(show.rating / 10).toFixed(1)}</span>
+							</div>
+						</div>
+
+						<div className="p-4">
+							<h3 className="font-bold text-gray-900 group-hover:text-red-600 dark:text-white dark:group-hover:text-red-400">
+								{show.title}
+							</h3>
+							<p className="text-sm text-gray-600 dark:text-gray-400">
+								{show.showType === "movie" ? "Movie" : "Series"}
+								{(show.releaseYear || show.firstAirYear) &&
+									` · ${show.releaseYear || show.firstAirYear}`}
+								{show.genres[0] && ` · ${show.genres[0].name}`}
+							</p>
+						</div>
+					</motion.button>
+				))}
+			</div>
+
+			{onReroll && (
+				<div className="flex justify-center">
+					<button
+						onClick={onReroll}
+						className="rounded-lg border-2 border-gray-300 px-6 py-3 font-semibold text-gray-700 transition-all hover:border-gray-400 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:border-gray-500 dark:hover:bg-gray-800"
+					>
+						None of these
+					</button>
+				</div>
+			)}
+		</div>
+	);
+}
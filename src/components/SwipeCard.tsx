@@ -0,0 +1,165 @@
+"use client";
+import { useState } from "react";
+import {
+	motion,
+	animate,
+	useMotionValue,
+	useTransform,
+	PanInfo,
+} from "motion/react";
+import Image from "next/image";
+import { StarIcon, XMarkIcon, HeartIcon } from "@heroicons/react/24/outline";
+import type { ShowPayload } from "@/lib/utils/showPayload";
+
+type SwipeVote = "keep" | "skip";
+
+interface SwipeCardProps {
+	show: ShowPayload;
+	onVote: (vote: SwipeVote) => Promise<boolean>; // False when the vote was not saved
+	disabled?: boolean;
+}
+
+// How far, or how fast, a drag has to go to count as a swipe
+const SWIPE_OFFSET = 120;
+const SWIPE_VELOCITY = 500;
+const FLY_OUT_X = 600;
+
+export default function SwipeCard({
+	show,
+	onVote,
+	disabled = false,
+}: SwipeCardProps) {
+	const [isVoting, setIsVoting] = useState(false);
+	const x = useMotionValue(0);
+	const rotate = useTransform(x, [-300, 300], [-15, 15]);
+	const keepOpacity = useTransform(x, [0, SWIPE_OFFSET], [0, 1]);
+	const skipOpacity = useTransform(x, [-SWIPE_OFFSET, 0], [1, 0]);
+
+	const year = show.releaseYear || show.firstAirYear;
+	const duration =
+		show.showType === "movie"
+			? show.runtime && `${show.runtime}min`
+			: show.seasonCount &&
+			  `${show.seasonCount} season${show.seasonCount > 1 ? "s" : ""}`;
+
+	const vote = async (choice: SwipeVote) => {
+		// Clicks during the fly-out would otherwise vote twice
+		if (disabled || isVoting) return;
+		setIsVoting(true);
+
+		// Fly off in the swipe direction before handing over the vote
+		await animate(x, choice === "keep" ? FLY_OUT_X : -FLY_OUT_X, {
+			duration: 0.25,
+		});
+
+		// Bring the card back so a failed vote can be cast again
+		if (!(await onVote(choice))) {
+			animate(x, 0, { type: "spring", stiffness: 400, damping: 30 });
+			setIsVoting(false);
+		}
+	};
+
+	const handleDragEnd = (_: unknown, info: PanInfo) => {
+		if (info.offset.x > SWIPE_OFFSET || info.velocity.x > SWIPE_VELOCITY) {
+			vote("keep");
+		} else if (
+			info.offset.x < -SWIPE_OFFSET ||
+			info.velocity.x < -SWIPE_VELOCITY
+		) {
+			vote("skip");
+		} else {
+			animate(x, 0, { type: "spring", stiffness: 400, damping: 30 });
+		}
+	};
+
+	return (
+		<div className="mx-auto w-full max-w-sm space-y-6">
+			<motion.div
+				className="relative cursor-grab overflow-hidden rounded-2xl bg-white shadow-2xl active:cursor-grabbing dark:bg-gray-900"
+				style={{ x, rotate }}
+				drag={disabled || isVoting ? false : "x"}
+				dragConstraints={{ left: 0, right: 0 }}
+				dragElastic={0.9}
+				onDragEnd={handleDragEnd}
+				initial={{ opacity: 0, scale: 0.9 }}
+				animate={{ opacity: 1, scale: 1 }}
+				transition={{ type: "spring", stiffness: 260, damping: 20 }}
+			>
+				<div className="relative aspect-[2/3]">
+					{show.images.poster && (
+						<Image
+							src={show.images.poster}
+							alt={`${show.title} poster`}
+							fill
+							className="pointer-events-none object-cover"
+							sizes="384px"
+							draggable={false}
+						/>
+					)}
+
+					{/* Rating Badge */}
+					<div className="absolute top-4 right-4 flex items-center gap-1 rounded-full bg-black/70 px-3 py-1 text-sm font-medium text-white backdrop-blur-sm">
+						<StarIcon className="h-4 w-4 text-yellow-400" />
+						<span>{(show.rating / 10).toFixed(1)}</span>
+					</div>
+
+					{/* Swipe Stamps */}
+					<motion.div
+						className="absolute top-8 left-6 -rotate-12 rounded-lg border-4 border-emerald-500 px-3 py-1 text-2xl font-black uppercase text-emerald-500"
+						style={{ opacity: keepOpacity }}
+					>
+						Keep
+					</motion.div>
+					<motion.div
+						className="absolute top-8 right-6 rotate-12 rounded-lg border-4 border-red-500 px-3 py-1 text-2xl font-black uppercase text-red-500"
+						style={{ opacity: skipOpacity }}
+					>
+						Skip
+					</motion.div>
+
+					{/* Title */}
+					<div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/90 to-transparent p-4 pt-16 text-white">
+						<h3 className="text-2xl font-bold">{show.title}</h3>
+						<p className="text-sm text-white/80">
+							{show.showType === "movie" ? "Movie" : "Series"}
+							{year && ` · ${year}`}
+							{duration && ` · ${duration}`}
+							{show.genres[0] &&
+								` · ${show.genres
+									.slice(0, 2)
+									.map((genre) => genre.name)
+									.join(", ")}`}
+						</p>
+						<p className="mt-2 line-clamp-3 text-sm text-white/90">
+							{show.overview}
+						</p>
+					</div>
+				</div>
+			</motion.div>
+
+			{/* Vote Buttons, for when dragging is awkward */}
+			<div className="flex justify-center gap-8">
+				<motion.button
+					onClick={() => vote("skip")}
+					disabled={disabled || isVoting}
+					className="flex h-16 w-16 items-center justify-center rounded-full border-2 border-red-500 bg-white text-red-500 shadow-lg disabled:opacity-50 dark:bg-gray-900"
+					whileHover={!disabled ? { scale: 1.1 } : {}}
+					whileTap={!disabled ? { scale: 0.9 } : {}}
+					aria-label={`Skip ${show.title}`}
+				>
+					<XMarkIcon className="h-8 w-8" />
+				</motion.button>
+				<motion.button
+					onClick={() => vote("keep")}
+					disabled={disabled || isVoting}
+					className="flex h-16 w-16 items-center justify-center rounded-full border-2 border-emerald-500 bg-white text-emerald-500 shadow-lg disabled:opacity-50 dark:bg-gray-900"
+					whileHover={!disabled ? { scale: 1.1 } : {}}
+					whileTap={!disabled ? { scale: 0.9 } : {}}
+					aria-label={`Keep ${show.title}`}
+				>
+					<HeartIcon className="h-8 w-8" />
+				</motion.button>
+			</div>
+		</div>
+	);
+}
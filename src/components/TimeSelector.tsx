@@ -0,0 +1,89 @@
+"use client";
+import { motion } from "motion/react";
+import { ClockIcon } from "@heroicons/react/24/outline";
+
+interface TimeSelectorProps {
+	maxMinutes: number | null; // null: any length
+	onMaxMinutesChange: (minutes: number | null) => void;
+	disabled?: boolean;
+}
+
+const MIN_SLIDER_MINUTES = 20;
+const MAX_SLIDER_MINUTES = 240;
+const STEP_MINUTES = 5;
+const DEFAULT_MINUTES = 95;
+
+function formatMinutes(minutes: number): string {
+	const hours = Math.floor(minutes / 60);
+	const rest = minutes % 60;
+
+	if (hours === 0) {
+		return `${rest} min`;
+	}
+
+	return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+export default function TimeSelector({
+	maxMinutes,
+	onMaxMinutesChange,
+	disabled = false,
+}: TimeSelectorProps) {
+	const isLimited = maxMinutes !== null;
+
+	return (
+		<div className="space-y-3">
+			<div className="flex items-center justify-center gap-3">
+				<h3 className="text-sm font-medium text-gray-600 dark:text-gray-400">
+					How much time do you have?
+				</h3>
+				<button
+					onClick={() =>
+						onMaxMinutesChange(isLimited ? null : DEFAULT_MINUTES)
+					}
+					disabled={disabled}
+					className={`flex items-center gap-1 rounded-full px-3 py-1 text-sm font-medium transition-colors ${
+						isLimited
+							? "bg-gradient-to-r from-amber-500 to-orange-500 text-white"
+							: "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
+					} disabled:cursor-not-allowed disabled:opacity-50`}
+				>
+					<ClockIcon className="h-4 w-4" />
+					{isLimited ? "Time limit on" : "Any length"}
+				</button>
+			</div>
+
+			{isLimited && (
+				<motion.div
+					className="flex items-center gap-4"
+					initial={{ opacity: 0, height: 0 }}
+					animate={{ opacity: 1, height: "auto" }}
+					transition={{ duration: 0.2 }}
+				>
+					<input
+						type="range"
+						min={MIN_SLIDER_MINUTES}
+						max={MAX_SLIDER_MINUTES}
+						step={STEP_MINUTES}
+						value={maxMinutes}
+						onChange={(event) =>
+							onMaxMinutesChange(Number(event.target.value))
+						}
+						disabled={disabled}
+						aria-label="Maximum minutes"
+						className="flex-1 accent-orange-500"
+					/>
+					<span className="w-24 text-right text-sm font-semibold text-gray-900 dark:text-white">
+						{formatMinutes(maxMinutes)}
+					</span>
+				</motion.div>
+			)}
+
+			{isLimited && (
+				<p className="text-center text-xs text-gray-500 dark:text-gray-400">
+					Series count one episode.
+				</p>
+			)}
+		</div>
+	);
+}
@@ -3,10 +3,13 @@ import { motion } from "motion/react";
 import { FilmIcon, TvIcon, SparklesIcon } from "@heroicons/react/24/outline";
 
 type ContentType = "any" | "movie" | "series";
+type MinQuality = "any" | "hd" | "uhd";
 
 interface TypeSelectorProps {
 	selectedType: ContentType;
 	onTypeChange: (type: ContentType) => void;
+	selectedQuality?: MinQuality;
+	onQualityChange?: (quality: MinQuality) => void;
 	disabled?: boolean;
 }
 
@@ -34,9 +37,17 @@ const contentTypes = [
 	},
 ];
 
+const qualities = [
+	{ id: "any" as MinQuality, label: "Any quality" },
+	{ id: "hd" as MinQuality, label: "HD or better" },
+	{ id: "uhd" as MinQuality, label: "4K only" },
+];
+
 export default function TypeSelector({
 	selectedType,
 	onTypeChange,
+	selectedQuality = "any",
+	onQualityChange,
 	disabled = false,
 }: TypeSelectorProps) {
 	return (
@@ -151,6 +162,37 @@ export default function TypeSelector({
 					);
 				})}
 			</div>
+
+			{/* Quality combines with any type */}
+			{onQualityChange && (
+				<div className="flex flex-wrap justify-center gap-2">
+					{qualities.map((quality) => {
+						const isSelected = selectedQuality === quality.id;
+
+						return (
+							<motion.button
+								key={quality.id}
+								onClick={() => !disabled && onQualityChange(quality.id)}
+								disabled={disabled}
+								className={`
+                  rounded-full border px-4 py-1 text-sm font-medium transition-all
+                  ${
+						isSelected
+							? "border-gray-900 bg-gray-900 text-white dark:border-white dark:bg-white dark:text-gray-900"
+							: disabled
+							? "border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed dark:border-gray-700 dark:bg-gray-800"
+							: "border-gray-300 bg-white text-gray-700 hover:border-gray-400 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-300"
+					}
+                `}
+								whileHover={!disabled ? { scale: 1.05 } : {}}
+								whileTap={!disabled ? { scale: 0.95 } : {}}
+							>
+								{quality.label}
+							</motion.button>
+						);
+					})}
+				</div>
+			)}
 		</div>
 	);
 }
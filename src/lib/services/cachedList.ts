@@ -0,0 +1,98 @@
+// NetPick - Cached Upstream List
+// A small reference list (genres, countries) fetched from the upstream, kept for a TTL, with a built-in fallback
+
+export type CachedListSource = "api" | "fallback";
+
+export interface CachedListStats {
+	total: number;
+	source: CachedListSource;
+	lastRefresh: number;
+}
+
+export interface CachedListOptions<T> {
+	name: string; // Log prefix
+	ttlMs: number;
+	fetch: () => Promise<T[]>;
+	fallback: () => T[];
+}
+
+// After a failed refresh, wait before hitting the API again
+const RETRY_AFTER_FAILURE_MS = 5 * 60 * 1000;
+
+/**
+ * Cache-Control for a list response: long CDN cache for the upstream list,
+ * short one while serving the fallback
+ */
+export function getListCacheControl(source: CachedListSource): string {
+	return source === "api"
+		? "public, max-age=3600, s-maxage=86400"
+		: "public, max-age=300";
+}
+
+export class CachedList<T> {
+	private items: T[] = [];
+	private source: CachedListSource = "fallback";
+	private lastRefresh = 0;
+	private lastFailure = 0;
+	private pendingRefresh: Promise<void> | null = null;
+
+	constructor(private readonly options: CachedListOptions<T>) {}
+
+	/**
+	 * The list, refreshed once the TTL has passed
+	 */
+	async get(): Promise<T[]> {
+		await this.ensureFresh();
+		return this.items;
+	}
+
+	getStats(): CachedListStats {
+		return {
+			total: this.items.length,
+			source: this.source,
+			lastRefresh: this.lastRefresh,
+		};
+	}
+
+	// Private methods
+
+	private async ensureFresh(): Promise<void> {
+		const isFresh =
+			this.source === "api" &&
+			Date.now() - this.lastRefresh <= this.options.ttlMs;
+		const recentlyFailed = Date.now() - this.lastFailure < RETRY_AFTER_FAILURE_MS;
+
+		if (this.items.length > 0 && (isFresh || recentlyFailed)) {
+			return;
+		}
+
+		if (!this.pendingRefresh) {
+			this.pendingRefresh = this.refresh().finally(() => {
+				this.pendingRefresh = null;
+			});
+		}
+
+		await this.pendingRefresh;
+	}
+
+	private async refresh(): Promise<void> {
+		try {
+			this.items = await this.options.fetch();
+			this.source = "api";
+			this.lastRefresh = Date.now();
+
+			console.log(
+				`[${this.options.name}] Loaded ${this.items.length} entries`
+			);
+		} catch (error) {
+			console.error(`[${this.options.name}] Refresh failed:`, error);
+			this.lastFailure = Date.now();
+
+			// Keep serving the last good list; only fall back when there is none
+			if (this.items.length === 0) {
+				this.items = this.options.fallback();
+				this.source = "fallback";
+			}
+		}
+	}
+}
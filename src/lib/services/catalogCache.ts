@@ -0,0 +1,748 @@
+// NetPick - Catalog Cache
+// In-memory pools of Netflix shows per (country, showType, filters), filled from the Streaming Availability API
+
+import {
+	NetflixShow,
+	CachePool,
+	CacheMetadata,
+	CatalogQuery,
+	SupportedCountry,
+	DEFAULT_SERVICES,
+	ChangeType,
+} from "@/lib/types/netflix";
+import { catalogCrawler, getCatalogKey } from "./catalogCrawler";
+import { isFailoverError } from "./httpClient";
+import {
+	streamingAvailabilityService,
+	SeriesGranularity,
+} from "./streamingAvailability";
+import { matchesFilters } from "@/lib/utils/catalogFilters";
+
+export interface PoolLookup {
+	shows: NetflixShow[];
+	fromCache: boolean;
+	lastUpdate: number;
+}
+
+export interface ShowLookup {
+	show: NetflixShow | null;
+	fromCache: boolean;
+}
+
+export interface TitleSearchLookup {
+	shows: NetflixShow[];
+	fromCache: boolean;
+}
+
+export interface CatalogScope {
+	country: SupportedCountry;
+	services: string[]; // Every service some pool of the country picks from
+	oldestUpdate: number; // Oldest pool fill, the earliest change a sync must cover
+}
+
+export interface ShowUpdateResult {
+	inserted: number;
+	updated: number;
+	removed: number;
+}
+
+interface CachedShow {
+	show: NetflixShow | null; // null: the upstream does not know the id
+	fetchedAt: number;
+}
+
+interface CachedSearch {
+	shows: NetflixShow[];
+	fetchedAt: number;
+}
+
+const CACHE_TTL_MS =
+	parseFloat(process.env.CACHE_TTL_HOURS || "6") * 60 * 60 * 1000;
+const POOL_SIZE = parseInt(process.env.CACHE_POOL_SIZE || "200");
+const MIN_POOL_SIZE = parseInt(process.env.CACHE_MIN_POOL_SIZE || "50");
+const PAGES_PER_FILL = parseInt(process.env.CACHE_PAGES_PER_FILL || "5");
+// Pause between background crawls of one pool while its chain goes deeper
+const CRAWL_INTERVAL_MS =
+	parseInt(process.env.CACHE_CRAWL_INTERVAL_SECONDS || "60") * 1000;
+// Filter combinations come from clients, so the number of pools is capped
+const MAX_POOLS = parseInt(process.env.CACHE_MAX_POOLS || "100");
+// How long an expired pool is kept to serve while the upstream is down
+const STALE_TTL_MS =
+	parseFloat(process.env.CACHE_STALE_HOURS || "24") * 60 * 60 * 1000;
+const SHOW_TTL_MS =
+	parseFloat(process.env.SHOW_CACHE_TTL_HOURS || "24") * 60 * 60 * 1000;
+const SHOW_CACHE_SIZE = parseInt(process.env.SHOW_CACHE_SIZE || "500");
+// Unknown ids are remembered briefly, so walking ids does not bill a call per request
+const SHOW_NOT_FOUND_TTL_MS =
+	parseFloat(process.env.SHOW_NOT_FOUND_TTL_MINUTES || "5") * 60 * 1000;
+const SEARCH_TTL_MS =
+	parseFloat(process.env.SEARCH_CACHE_TTL_MINUTES || "30") * 60 * 1000;
+const SEARCH_CACHE_SIZE = parseInt(process.env.SEARCH_CACHE_SIZE || "200");
+const CHANGES_TTL_MS =
+	parseFloat(process.env.CHANGES_CACHE_TTL_MINUTES || "60") * 60 * 1000;
+// 25 changes per page
+const CHANGE_PAGES_PER_FILL = 4;
+
+export class CatalogCacheService {
+	private pools: Map<string, CachePool> = new Map(); // LRU by insertion order
+	private pendingFills: Map<string, Promise<CachePool>> = new Map();
+	private loadedPages: Map<string, Set<number>> = new Map(); // Chain pages already in each pool
+	private showDetails: Map<string, CachedShow> = new Map(); // LRU by insertion order
+	private titleSearches: Map<string, CachedSearch> = new Map(); // LRU by insertion order
+	private changePools: Map<string, CachePool> = new Map(); // Shows from the change feed, LRU by insertion order
+	private pendingChangeFills: Map<string, Promise<CachePool>> = new Map();
+	private hitCount = 0;
+	private missCount = 0;
+	private lastGlobalRefresh = 0;
+
+	/**
+	 * Get the pool for a catalog query, filling it from the API on a miss
+	 */
+	async getShows(query: CatalogQuery): Promise<PoolLookup> {
+		const key = getCatalogKey(query);
+		const pool = this.pools.get(key);
+
+		// An empty pool is cached too, so a too-narrow filter is not refetched on every click
+		if (pool && !this.isExpired(pool)) {
+			this.touch(this.pools, key, pool);
+			this.hitCount++;
+
+			// Top up in the background so the next request still hits
+			if (this.shouldRefill(key, pool)) {
+				this.refillPool(key, pool).catch((error) =>
+					console.error(`[CatalogCache] Refill failed for ${key}:`, error)
+				);
+			}
+
+			return {
+				shows: pool.shows,
+				fromCache: true,
+				lastUpdate: pool.lastUpdate,
+			};
+		}
+
+		this.missCount++;
+
+		try {
+			const filled = await this.fillPool(key, query);
+
+			return {
+				shows: filled.shows,
+				fromCache: false,
+				lastUpdate: filled.lastUpdate,
+			};
+		} catch (error) {
+			// A stale pool beats no pool while the upstream is struggling
+			if (pool && pool.shows.length > 0 && isFailoverError(error)) {
+				console.warn(
+					`[CatalogCache] Upstream unavailable, serving stale ${key}`
+				);
+
+				return {
+					shows: pool.shows,
+					fromCache: true,
+					lastUpdate: pool.lastUpdate,
+				};
+			}
+
+			throw error;
+		}
+	}
+
+	/**
+	 * Get the shows behind one type of catalog change (e.g. expiring), nearest to now first
+	 */
+	async getChangedShows(
+		query: CatalogQuery,
+		changeType: ChangeType
+	): Promise<PoolLookup> {
+		// One pool per feed, filters are checked by the caller
+		const key = `${getCatalogKey({
+			...query,
+			filters: undefined,
+		})}#${changeType}`;
+		const pool = this.changePools.get(key);
+
+		if (pool && Date.now() - pool.lastUpdate <= CHANGES_TTL_MS) {
+			this.touch(this.changePools, key, pool);
+			this.hitCount++;
+
+			return {
+				shows: pool.shows,
+				fromCache: true,
+				lastUpdate: pool.lastUpdate,
+			};
+		}
+
+		this.missCount++;
+
+		let pending = this.pendingChangeFills.get(key);
+		if (!pending) {
+			pending = this.buildChangePool(query, changeType).finally(() => {
+				this.pendingChangeFills.delete(key);
+			});
+			this.pendingChangeFills.set(key, pending);
+		}
+
+		let filled: CachePool;
+		try {
+			filled = await pending;
+		} catch (error) {
+			// Same as the catalog pools: a stale feed beats none during an outage
+			if (pool && isFailoverError(error)) {
+				console.warn(
+					`[CatalogCache] Upstream unavailable, serving stale ${key}`
+				);
+
+				return {
+					shows: pool.shows,
+					fromCache: true,
+					lastUpdate: pool.lastUpdate,
+				};
+			}
+
+			throw error;
+		}
+
+		this.touch(this.changePools, key, filled);
+		this.prunePools();
+
+		return {
+			shows: filled.shows,
+			fromCache: false,
+			lastUpdate: filled.lastUpdate,
+		};
+	}
+
+	/**
+	 * Get a single show's details, cached for SHOW_CACHE_TTL_HOURS,
+	 * or SHOW_NOT_FOUND_TTL_MINUTES when the id is unknown
+	 */
+	async getShow(
+		id: string,
+		country: SupportedCountry,
+		seriesGranularity: SeriesGranularity = "show"
+	): Promise<ShowLookup> {
+		const key = `${country}:${seriesGranularity}:${id}`;
+		const cached = this.showDetails.get(key);
+
+		const ttl = cached?.show ? SHOW_TTL_MS : SHOW_NOT_FOUND_TTL_MS;
+
+		if (cached && Date.now() - cached.fetchedAt <= ttl) {
+			// Refresh LRU position
+			this.showDetails.delete(key);
+			this.showDetails.set(key, cached);
+			this.hitCount++;
+
+			return { show: cached.show, fromCache: true };
+		}
+
+		this.missCount++;
+		const show = await streamingAvailabilityService.getShow(id, country, {
+			seriesGranularity,
+		});
+
+		this.showDetails.delete(key);
+		this.showDetails.set(key, { show, fetchedAt: Date.now() });
+
+		this.evictOldest(this.showDetails, SHOW_CACHE_SIZE);
+
+		return { show, fromCache: false };
+	}
+
+	/**
+	 * Search titles, cached per normalized query so typing bursts reuse results
+	 */
+	async searchByTitle(
+		title: string,
+		country: SupportedCountry,
+		showType?: "movie" | "series"
+	): Promise<TitleSearchLookup> {
+		const normalized = title.trim().toLowerCase().replace(/\s+/g, " ");
+		const key = `${country}:${showType || "any"}:${normalized}`;
+		const cached = this.titleSearches.get(key);
+
+		if (cached && Date.now() - cached.fetchedAt <= SEARCH_TTL_MS) {
+			this.titleSearches.delete(key);
+			this.titleSearches.set(key, cached);
+			this.hitCount++;
+
+			return { shows: cached.shows, fromCache: true };
+		}
+
+		this.missCount++;
+		const shows = await streamingAvailabilityService.searchByTitle(
+			normalized,
+			country,
+			showType
+		);
+
+		this.titleSearches.delete(key);
+		this.titleSearches.set(key, { shows, fetchedAt: Date.now() });
+		this.evictOldest(this.titleSearches, SEARCH_CACHE_SIZE);
+
+		return { shows, fromCache: false };
+	}
+
+	/**
+	 * Remove a show from every pool of a country (e.g. it left Netflix)
+	 */
+	evictShow(country: SupportedCountry, showId: string): number {
+		let removed = 0;
+
+		for (const pool of this.pools.values()) {
+			if (pool.country !== country) continue;
+
+			const before = pool.shows.length;
+			pool.shows = pool.shows.filter((show) => show.id !== showId);
+			removed += before - pool.shows.length;
+		}
+
+		this.dropShowDetails(country, showId);
+
+		return removed;
+	}
+
+	/**
+	 * Apply fresh show data to every pool of a country: replace it where it still
+	 * streams on one of the pool's services, drop it where it no longer does,
+	 * and with `insert` add it to pools it now belongs to
+	 */
+	applyShowUpdate(
+		country: SupportedCountry,
+		show: NetflixShow,
+		options: { insert?: boolean } = {}
+	): ShowUpdateResult {
+		const result: ShowUpdateResult = { inserted: 0, updated: 0, removed: 0 };
+
+		for (const pool of this.pools.values()) {
+			if (pool.country !== country) continue;
+
+			const services = pool.services || DEFAULT_SERVICES;
+			const streams = show.watchLinks.some((link) =>
+				services.includes(link.serviceId)
+			);
+			const index = pool.shows.findIndex((cached) => cached.id === show.id);
+
+			if (index !== -1 && streams) {
+				// The feed knows nothing of popularity, keep the crawled rank
+				pool.shows[index] = {
+					...show,
+					popularityRank: pool.shows[index].popularityRank,
+					// Feed shows come at show granularity, without episodes
+					episodeRuntime:
+						show.episodeRuntime ?? pool.shows[index].episodeRuntime,
+				};
+				result.updated++;
+			} else if (index !== -1) {
+				pool.shows.splice(index, 1);
+				result.removed++;
+			} else if (
+				options.insert &&
+				streams &&
+				pool.shows.length < POOL_SIZE &&
+				this.matchesPool(show, pool)
+			) {
+				pool.shows.push(show);
+				result.inserted++;
+			}
+		}
+
+		this.dropShowDetails(country, show.id);
+
+		return result;
+	}
+
+	/**
+	 * Record a service's announced leaving date on a cached show
+	 * Returns the number of pools holding the show
+	 */
+	setExpiry(
+		country: SupportedCountry,
+		showId: string,
+		serviceId: string,
+		expiresOn: number
+	): number {
+		let updated = 0;
+
+		for (const pool of this.pools.values()) {
+			if (pool.country !== country) continue;
+
+			const show = pool.shows.find((cached) => cached.id === showId);
+			if (!show) continue;
+
+			for (const option of show.streamingOptions[country] || []) {
+				if (option.service.id === serviceId) {
+					option.expiresOn = expiresOn;
+					option.expiresSoon = true;
+				}
+			}
+			for (const link of show.watchLinks) {
+				if (link.serviceId === serviceId) {
+					link.expiresOn = expiresOn;
+				}
+			}
+			updated++;
+		}
+
+		this.dropShowDetails(country, showId);
+
+		return updated;
+	}
+
+	/**
+	 * Countries with live pools and what a change sync has to cover for each
+	 */
+	getCatalogScopes(): CatalogScope[] {
+		const scopes = new Map<string, CatalogScope>();
+
+		for (const pool of this.pools.values()) {
+			if (this.isExpired(pool)) continue;
+
+			const scope = scopes.get(pool.country) || {
+				country: pool.country,
+				services: [],
+				oldestUpdate: pool.lastUpdate,
+			};
+
+			for (const service of pool.services || DEFAULT_SERVICES) {
+				if (!scope.services.includes(service)) {
+					scope.services.push(service);
+				}
+			}
+			scope.oldestUpdate = Math.min(scope.oldestUpdate, pool.lastUpdate);
+			scopes.set(pool.country, scope);
+		}
+
+		return Array.from(scopes.values());
+	}
+
+	/**
+	 * Drop every pool of a country, or every pool when no country is given
+	 */
+	invalidate(country?: SupportedCountry): void {
+		for (const pools of [this.pools, this.changePools]) {
+			for (const [key, pool] of pools.entries()) {
+				if (!country || pool.country === country) {
+					pools.delete(key);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Cache statistics for monitoring
+	 */
+	getMetadata(): CacheMetadata {
+		const poolSizes: Record<string, number> = {};
+		let totalShows = 0;
+
+		for (const [key, pool] of this.pools.entries()) {
+			poolSizes[key] = pool.shows.length;
+			totalShows += pool.shows.length;
+		}
+
+		const lookups = this.hitCount + this.missCount;
+
+		return {
+			totalShows,
+			lastGlobalRefresh: this.lastGlobalRefresh,
+			poolSizes,
+			hitRate: lookups > 0 ? this.hitCount / lookups : 0,
+			missCount: this.missCount,
+			hitCount: this.hitCount,
+		};
+	}
+
+	// Private methods
+
+	private isExpired(pool: CachePool): boolean {
+		return Date.now() - pool.lastUpdate > CACHE_TTL_MS;
+	}
+
+	private async fillPool(
+		key: string,
+		query: CatalogQuery
+	): Promise<CachePool> {
+		// Share one in-flight fill between concurrent misses
+		const pending = this.pendingFills.get(key);
+		if (pending) {
+			return pending;
+		}
+
+		const fill = this.buildPool(key, query).finally(() => {
+			this.pendingFills.delete(key);
+		});
+		this.pendingFills.set(key, fill);
+
+		const pool = await fill;
+		this.touch(this.pools, key, pool);
+		this.prunePools();
+		this.lastGlobalRefresh = pool.lastUpdate;
+
+		return pool;
+	}
+
+	private async buildPool(
+		key: string,
+		query: CatalogQuery
+	): Promise<CachePool> {
+		const pool: CachePool = {
+			shows: [],
+			lastUpdate: Date.now(),
+			country: query.country,
+			showType: query.showType,
+			services: query.services,
+			filters: query.filters,
+			seriesGranularity: query.seriesGranularity,
+		};
+
+		this.loadedPages.set(key, new Set());
+		await this.loadPages(key, pool);
+
+		console.log(
+			`[CatalogCache] Filled ${key} with ${pool.shows.length} shows`
+		);
+
+		return pool;
+	}
+
+	private async buildChangePool(
+		query: CatalogQuery,
+		changeType: ChangeType
+	): Promise<CachePool> {
+		const services = query.services?.length ? query.services : DEFAULT_SERVICES;
+		const isFuture = changeType === "expiring" || changeType === "upcoming";
+		const shows = new Map<string, NetflixShow>();
+		let cursor: string | undefined;
+		let pages = 0;
+
+		do {
+			const page = await streamingAvailabilityService.getChanges({
+				country: query.country,
+				catalogs: services.map((service) => `${service}.subscription`),
+				changeType,
+				showType: query.showType === "any" ? undefined : query.showType,
+				// Soonest leaving dates and latest arrivals first
+				orderDirection: isFuture ? "asc" : "desc",
+				cursor,
+			});
+
+			for (const change of page.changes) {
+				const show = page.shows[change.showId];
+				if (show && !shows.has(show.id)) {
+					shows.set(show.id, show);
+				}
+			}
+
+			pages++;
+			cursor = page.hasMore ? page.nextCursor : undefined;
+		} while (cursor && pages < CHANGE_PAGES_PER_FILL);
+
+		console.log(
+			`[CatalogCache] Loaded ${shows.size} ${changeType} shows for ${query.country} (${pages} pages)`
+		);
+
+		return {
+			shows: Array.from(shows.values()),
+			lastUpdate: Date.now(),
+			country: query.country,
+			showType: query.showType,
+			services: query.services,
+		};
+	}
+
+	private async refillPool(key: string, pool: CachePool): Promise<void> {
+		if (this.pendingFills.has(key)) {
+			return;
+		}
+
+		const refill = this.loadPages(key, pool)
+			.then(() => pool)
+			.finally(() => {
+				this.pendingFills.delete(key);
+			});
+		this.pendingFills.set(key, refill);
+
+		await refill;
+	}
+
+	/**
+	 * Whether to load more pages in the background: a small pool with pages left,
+	 * or a chain not crawled to the end, so picks do not stay in the most popular pages
+	 */
+	private shouldRefill(key: string, pool: CachePool): boolean {
+		if (pool.shows.length < MIN_POOL_SIZE) {
+			return this.canRefill(key, pool);
+		}
+
+		const chain = catalogCrawler.getChain(this.getQuery(pool));
+
+		return (
+			!!chain &&
+			!catalogCrawler.isExhausted(chain) &&
+			Date.now() - chain.lastCrawl >= CRAWL_INTERVAL_MS
+		);
+	}
+
+	/**
+	 * Whether the crawled chain still has pages this pool has not loaded
+	 */
+	private canRefill(key: string, pool: CachePool): boolean {
+		const chain = catalogCrawler.getChain(this.getQuery(pool));
+		if (!chain) {
+			return true;
+		}
+
+		const loaded = this.loadedPages.get(key)?.size || 0;
+		return !catalogCrawler.isExhausted(chain) || loaded < chain.cursors.length;
+	}
+
+	/**
+	 * Load pages into a pool: extend the crawl while the chain is shallow,
+	 * then sample random unseen pages from anywhere in the catalog
+	 */
+	private async loadPages(key: string, pool: CachePool): Promise<void> {
+		const query = this.getQuery(pool);
+		const loaded = this.loadedPages.get(key) || new Set<number>();
+		this.loadedPages.set(key, loaded);
+
+		const chain = catalogCrawler.getChain(query);
+		let pages;
+
+		if (!chain || !catalogCrawler.isExhausted(chain)) {
+			const result = await catalogCrawler.crawl(query, PAGES_PER_FILL);
+			pages = result.pages;
+		} else {
+			const unseen = chain.cursors
+				.map((_, index) => index)
+				.filter((index) => !loaded.has(index));
+			pages = await catalogCrawler.fetchPages(
+				query,
+				this.sample(unseen, PAGES_PER_FILL)
+			);
+		}
+
+		const seen = new Set(pool.shows.map((show) => show.id));
+
+		for (const page of pages) {
+			loaded.add(page.index);
+
+			for (const show of page.shows) {
+				if (!seen.has(show.id)) {
+					seen.add(show.id);
+					this.addSampled(pool, show);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Reservoir sampling: once the pool is full, each new show replaces a random one
+	 * with the odds that keep the pool a uniform sample of every show crawled so far
+	 */
+	private addSampled(pool: CachePool, show: NetflixShow): void {
+		pool.crawledShows = (pool.crawledShows || pool.shows.length) + 1;
+
+		if (pool.shows.length < POOL_SIZE) {
+			pool.shows.push(show);
+			return;
+		}
+
+		const slot = Math.floor(Math.random() * pool.crawledShows);
+		if (slot < POOL_SIZE) {
+			pool.shows[slot] = show;
+		}
+	}
+
+	/**
+	 * Drop pools past their stale window, then the least recently used ones over MAX_POOLS
+	 */
+	private prunePools(): void {
+		const now = Date.now();
+
+		for (const [pools, ttl] of [
+			[this.pools, CACHE_TTL_MS],
+			[this.changePools, CHANGES_TTL_MS],
+		] as const) {
+			for (const [key, pool] of pools.entries()) {
+				if (now - pool.lastUpdate > ttl + STALE_TTL_MS) {
+					pools.delete(key);
+				}
+			}
+
+			this.evictOldest(pools, MAX_POOLS);
+		}
+
+		for (const key of this.loadedPages.keys()) {
+			if (!this.pools.has(key) && !this.pendingFills.has(key)) {
+				this.loadedPages.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Store an entry as the most recently used
+	 */
+	private touch<T>(entries: Map<string, T>, key: string, value: T): void {
+		entries.delete(key);
+		entries.set(key, value);
+	}
+
+	private evictOldest<T>(entries: Map<string, T>, maxSize: number): void {
+		while (entries.size > maxSize) {
+			const oldest = entries.keys().next().value;
+			if (oldest === undefined) break;
+			entries.delete(oldest);
+		}
+	}
+
+	private getQuery(pool: CachePool): CatalogQuery {
+		return {
+			country: pool.country,
+			showType: pool.showType,
+			services: pool.services,
+			filters: pool.filters,
+			seriesGranularity: pool.seriesGranularity,
+		};
+	}
+
+	/**
+	 * Whether a show fits a pool's query, for inserting shows the pool was not filled with.
+	 * Filters we cannot check locally (language, keyword) rule the pool out.
+	 */
+	private matchesPool(show: NetflixShow, pool: CachePool): boolean {
+		const filters = pool.filters || {};
+
+		if (pool.showType !== "any" && show.showType !== pool.showType) {
+			return false;
+		}
+		if (filters.originalLanguage || filters.keyword) {
+			return false;
+		}
+
+		return matchesFilters(show, filters);
+	}
+
+	private dropShowDetails(country: SupportedCountry, showId: string): void {
+		for (const key of this.showDetails.keys()) {
+			if (key.startsWith(`${country}:`) && key.endsWith(`:${showId}`)) {
+				this.showDetails.delete(key);
+			}
+		}
+	}
+
+	private sample<T>(items: T[], count: number): T[] {
+		const copy = [...items];
+
+		for (let i = copy.length - 1; i > 0; i--) {
+			const j = Math.floor(Math.random() * (i + 1));
+			[copy[i], copy[j]] = [copy[j], copy[i]];
+		}
+
+		return copy.slice(0, count);
+	}
+}
+
+// Singleton instance
+export const catalogCache = new CatalogCacheService();
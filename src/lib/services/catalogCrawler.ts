@@ -0,0 +1,273 @@
+// NetPick - Catalog Crawler
+// Walks the Streaming Availability cursor chain so picks can reach deep catalog pages
+
+import {
+	NetflixShow,
+	CursorChain,
+	CatalogQuery,
+	SupportedCountry,
+	DEFAULT_SERVICES,
+} from "@/lib/types/netflix";
+import { streamingAvailabilityService } from "./streamingAvailability";
+
+export interface CrawledPage {
+	index: number;
+	shows: NetflixShow[];
+}
+
+export interface CrawlResult {
+	pages: CrawledPage[];
+	totalPages: number;
+	complete: boolean;
+}
+
+export interface CrawlStats {
+	pages: number;
+	complete: boolean;
+	lastCrawl: string;
+}
+
+/**
+ * Stable key for a catalog query, shared by crawl chains and cache pools
+ */
+export function getCatalogKey(query: CatalogQuery): string {
+	const services = [...(query.services || DEFAULT_SERVICES)].sort().join("+");
+	const granularity =
+		query.seriesGranularity && query.seriesGranularity !== "show"
+			? `~${query.seriesGranularity}`
+			: "";
+	const base = `${query.country}-${query.showType}${
+		services === "netflix" ? "" : `@${services}`
+	}${granularity}`;
+	const filters = Object.entries(query.filters || {})
+		.filter(([, value]) =>
+			Array.isArray(value) ? value.length > 0 : value !== undefined && value !== ""
+		)
+		.map(([name, value]) =>
+			`${name}=${Array.isArray(value) ? [...value].sort().join(",") : value}`
+		)
+		.sort();
+
+	return filters.length > 0 ? `${base}?${filters.join("&")}` : base;
+}
+
+// Upstream /shows/search/filters page size
+const PAGE_SIZE = 20;
+const MAX_PAGES = parseInt(process.env.CRAWL_MAX_PAGES || "100");
+const CHAIN_TTL_MS =
+	parseFloat(process.env.CRAWL_TTL_HOURS || "24") * 60 * 60 * 1000;
+// One chain per filter combination, so they are capped like the cache pools
+const MAX_CHAINS = parseInt(process.env.CRAWL_MAX_CHAINS || "100");
+
+export class CatalogCrawlerService {
+	private chains: Map<string, CursorChain> = new Map(); // LRU by insertion order
+	private pendingCrawls: Map<string, Promise<CrawlResult>> = new Map();
+
+	/**
+	 * Crawl up to maxPages new pages, resuming where the last crawl stopped
+	 */
+	async crawl(query: CatalogQuery, maxPages: number): Promise<CrawlResult> {
+		const key = getCatalogKey(query);
+
+		// Concurrent callers share the same walk instead of racing on the chain
+		const pending = this.pendingCrawls.get(key);
+		if (pending) {
+			return pending;
+		}
+
+		const crawl = this.walk(key, query, maxPages).finally(() => {
+			this.pendingCrawls.delete(key);
+		});
+		this.pendingCrawls.set(key, crawl);
+
+		return crawl;
+	}
+
+	/**
+	 * Fetch specific pages of an already crawled chain
+	 */
+	async fetchPages(
+		query: CatalogQuery,
+		indexes: number[]
+	): Promise<CrawledPage[]> {
+		const chain = this.getChain(query);
+		if (!chain) {
+			return [];
+		}
+
+		const valid = indexes.filter(
+			(index) => index >= 0 && index < chain.cursors.length
+		);
+
+		return Promise.all(
+			valid.map(async (index) => {
+				const result = await this.fetchPage(
+					query,
+					index,
+					chain.cursors[index] ?? undefined
+				);
+				return { index, shows: result.shows };
+			})
+		);
+	}
+
+	/**
+	 * Get the stored chain for a query, ignoring stale ones
+	 */
+	getChain(query: CatalogQuery): CursorChain | undefined {
+		const key = getCatalogKey(query);
+		const chain = this.chains.get(key);
+
+		if (!chain || this.isStale(chain)) {
+			return undefined;
+		}
+
+		// Refresh LRU position
+		this.chains.delete(key);
+		this.chains.set(key, chain);
+
+		return chain;
+	}
+
+	/**
+	 * Whether a chain has been walked as deep as it will go
+	 */
+	isExhausted(chain: CursorChain): boolean {
+		return chain.complete || chain.cursors.length >= MAX_PAGES;
+	}
+
+	/**
+	 * Crawl state for monitoring
+	 */
+	getStats(): Record<string, CrawlStats> {
+		const stats: Record<string, CrawlStats> = {};
+
+		for (const [key, chain] of this.chains.entries()) {
+			stats[key] = {
+				pages: chain.cursors.length,
+				complete: chain.complete,
+				lastCrawl: new Date(chain.lastCrawl).toISOString(),
+			};
+		}
+
+		return stats;
+	}
+
+	// Private methods
+
+	private isStale(chain: CursorChain): boolean {
+		return Date.now() - chain.startedAt > CHAIN_TTL_MS;
+	}
+
+	/**
+	 * Drop stale chains, then the least recently used ones over MAX_CHAINS
+	 */
+	private pruneChains(): void {
+		for (const [key, chain] of this.chains.entries()) {
+			if (this.isStale(chain)) {
+				this.chains.delete(key);
+			}
+		}
+
+		while (this.chains.size > MAX_CHAINS) {
+			const oldest = this.chains.keys().next().value;
+			if (oldest === undefined) break;
+			this.chains.delete(oldest);
+		}
+	}
+
+	private async walk(
+		key: string,
+		query: CatalogQuery,
+		maxPages: number
+	): Promise<CrawlResult> {
+		let chain = this.chains.get(key);
+
+		// Cursors are opaque and may expire upstream, so stale chains restart
+		if (!chain || this.isStale(chain)) {
+			chain = {
+				country: query.country,
+				showType: query.showType,
+				services: query.services,
+				filters: query.filters,
+				cursors: [],
+				complete: false,
+				startedAt: Date.now(),
+				lastCrawl: Date.now(),
+			};
+			this.chains.delete(key);
+			this.chains.set(key, chain);
+			this.pruneChains();
+		}
+
+		const pages: CrawledPage[] = [];
+
+		while (!this.isExhausted(chain) && pages.length < maxPages) {
+			const cursor = chain.cursors.length === 0 ? null : chain.nextCursor;
+
+			// A resumed chain without a cursor has nothing left to walk
+			if (cursor === undefined) {
+				chain.complete = true;
+				break;
+			}
+
+			const result = await this.fetchPage(
+				query,
+				chain.cursors.length,
+				cursor ?? undefined
+			);
+
+			pages.push({ index: chain.cursors.length, shows: result.shows });
+			chain.cursors.push(cursor);
+			chain.nextCursor = result.hasMore ? result.nextCursor : undefined;
+			chain.complete = !chain.nextCursor;
+			chain.lastCrawl = Date.now();
+		}
+
+		console.log(
+			`[CatalogCrawler] ${key}: crawled ${pages.length} pages (${
+				chain.cursors.length
+			} total${chain.complete ? ", complete" : ""})`
+		);
+
+		return {
+			pages,
+			totalPages: chain.cursors.length,
+			complete: chain.complete,
+		};
+	}
+
+	/**
+	 * Fetch one page, ranking its shows by their position in the popularity order
+	 */
+	private async fetchPage(
+		query: CatalogQuery,
+		index: number,
+		cursor?: string
+	) {
+		const result = await streamingAvailabilityService.searchShows({
+			...query.filters,
+			country: query.country as SupportedCountry,
+			showType: query.showType === "any" ? undefined : query.showType,
+			// Only titles included in the subscriptions, not rent/buy
+			catalogs: (query.services || DEFAULT_SERVICES).map(
+				(service) => `${service}.subscription`
+			),
+			orderBy: "popularity_1year",
+			orderDirection: "desc",
+			seriesGranularity: query.seriesGranularity,
+			cursor,
+		});
+
+		return {
+			...result,
+			shows: result.shows.map((show, position) => ({
+				...show,
+				popularityRank: index * PAGE_SIZE + position + 1,
+			})),
+		};
+	}
+}
+
+// Singleton instance
+export const catalogCrawler = new CatalogCrawlerService();
@@ -0,0 +1,150 @@
+// NetPick - Catalog Providers
+// Sources of candidate shows for the picker: Streaming Availability first, TMDB when it is down or out of quota
+
+import {
+	NetflixShow,
+	CatalogQuery,
+	CatalogProviderName,
+} from "@/lib/types/netflix";
+import { catalogCache } from "./catalogCache";
+import { getCatalogKey } from "./catalogCrawler";
+import { tmdbService } from "./tmdb";
+
+export interface ProviderLookup {
+	shows: NetflixShow[];
+	fromCache: boolean;
+}
+
+export interface CatalogProvider {
+	readonly name: CatalogProviderName;
+	/**
+	 * Whether the provider can answer this query at all
+	 */
+	supports(query: CatalogQuery): boolean;
+	getShows(query: CatalogQuery): Promise<ProviderLookup>;
+}
+
+interface FallbackPool {
+	shows: NetflixShow[];
+	lastUpdate: number;
+}
+
+// Fallback pools only need to bridge an outage
+const FALLBACK_POOL_TTL_MS = 60 * 60 * 1000;
+const FALLBACK_PAGES_PER_FILL = 3;
+
+export class StreamingAvailabilityProvider implements CatalogProvider {
+	readonly name = "streaming-availability" as const;
+
+	supports(): boolean {
+		return true;
+	}
+
+	async getShows(query: CatalogQuery): Promise<ProviderLookup> {
+		const { shows, fromCache } = await catalogCache.getShows(query);
+		return { shows, fromCache };
+	}
+}
+
+export class TmdbProvider implements CatalogProvider {
+	readonly name = "tmdb" as const;
+
+	private pools: Map<string, FallbackPool> = new Map();
+	private pendingFills: Map<string, Promise<FallbackPool>> = new Map();
+
+	/**
+	 * TMDB only knows Netflix availability and has no free-text keyword filter
+	 */
+	supports(query: CatalogQuery): boolean {
+		const services = query.services?.length ? query.services : ["netflix"];
+
+		return (
+			tmdbService.isConfigured() &&
+			services.includes("netflix") &&
+			!query.filters?.keyword
+		);
+	}
+
+	async getShows(query: CatalogQuery): Promise<ProviderLookup> {
+		const key = getCatalogKey(query);
+		const pool = this.pools.get(key);
+
+		if (pool && Date.now() - pool.lastUpdate <= FALLBACK_POOL_TTL_MS) {
+			return { shows: pool.shows, fromCache: true };
+		}
+
+		let pending = this.pendingFills.get(key);
+		if (!pending) {
+			pending = this.fillPool(query).finally(() => {
+				this.pendingFills.delete(key);
+			});
+			this.pendingFills.set(key, pending);
+		}
+
+		const filled = await pending;
+		this.pools.set(key, filled);
+
+		return { shows: filled.shows, fromCache: false };
+	}
+
+	// Private methods
+
+	private async fillPool(query: CatalogQuery): Promise<FallbackPool> {
+		const showTypes =
+			query.showType === "any"
+				? (["movie", "series"] as const)
+				: [query.showType];
+
+		const results = await Promise.all(
+			showTypes.map((showType) => this.fetchShowType(query, showType))
+		);
+		// Popularity shifts between page fetches, so the same show can appear twice
+		const shows = Array.from(
+			new Map(results.flat().map((show) => [show.id, show])).values()
+		);
+
+		console.log(
+			`[TmdbProvider] Filled ${getCatalogKey(query)} with ${
+				shows.length
+			} shows`
+		);
+
+		return { shows, lastUpdate: Date.now() };
+	}
+
+	/**
+	 * First page plus a few random deeper pages, so picks are not always the top titles
+	 */
+	private async fetchShowType(
+		query: CatalogQuery,
+		showType: "movie" | "series"
+	): Promise<NetflixShow[]> {
+		const params = { ...query.filters, country: query.country, showType };
+		const first = await tmdbService.discoverShows(params);
+
+		const pages = new Set<number>();
+		const extraPages = Math.min(FALLBACK_PAGES_PER_FILL - 1, first.totalPages - 1);
+
+		while (pages.size < extraPages) {
+			pages.add(2 + Math.floor(Math.random() * (first.totalPages - 1)));
+		}
+
+		const rest = await Promise.all(
+			Array.from(pages).map((page) =>
+				tmdbService.discoverShows({ ...params, page })
+			)
+		);
+
+		return [first, ...rest].flatMap((result) => result.shows);
+	}
+}
+
+// Singleton instances
+export const streamingAvailabilityProvider = new StreamingAvailabilityProvider();
+export const tmdbProvider = new TmdbProvider();
+
+// Tried in order until one answers
+export const catalogProviders: CatalogProvider[] = [
+	streamingAvailabilityProvider,
+	tmdbProvider,
+];
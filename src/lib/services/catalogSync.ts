@@ -0,0 +1,241 @@
+// NetPick - Catalog Sync
+// Applies the upstream /changes feed to the cached pools instead of re-crawling them
+// Pools live in memory, so a sync only reaches the instance that runs it
+
+import { ChangeType, ShowChange, NetflixShow } from "@/lib/types/netflix";
+import { catalogCache, CatalogScope } from "./catalogCache";
+import { streamingAvailabilityService } from "./streamingAvailability";
+
+export interface SyncCounts {
+	inserted: number;
+	updated: number;
+	removed: number;
+	expiring: number;
+}
+
+export interface SyncCheckpoint {
+	country: string;
+	lastSync: number; // Changes up to this time are applied
+	lastRun: number;
+	pages: number; // Upstream pages fetched by the last run
+	counts: SyncCounts; // Pool entries touched by the last run
+	error?: string;
+}
+
+export interface SyncStats {
+	running: boolean;
+	countries: Array<
+		Omit<SyncCheckpoint, "lastSync" | "lastRun"> & {
+			lastSync: string;
+			lastRun: string;
+		}
+	>;
+}
+
+interface CollectedChanges {
+	changes: ShowChange[];
+	shows: Record<string, NetflixShow>;
+	pages: number;
+	syncedUntil: number; // Earlier than the requested end when the page cap cut the feed short
+}
+
+const MAX_PAGES_PER_TYPE = parseInt(process.env.SYNC_MAX_PAGES || "4");
+// Past changes can only be queried 31 days back, keep a day of margin
+const MAX_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+
+export class CatalogSyncService {
+	private checkpoints: Map<string, SyncCheckpoint> = new Map();
+	private pendingSync: Promise<SyncCheckpoint[]> | null = null;
+
+	/**
+	 * Apply changes since the last sync to every cached country, or just one
+	 */
+	async sync(country?: string): Promise<SyncCheckpoint[]> {
+		// One sync at a time, concurrent triggers share it
+		if (this.pendingSync) {
+			return this.pendingSync;
+		}
+
+		this.pendingSync = this.run(country).finally(() => {
+			this.pendingSync = null;
+		});
+
+		return this.pendingSync;
+	}
+
+	/**
+	 * Sync checkpoints for monitoring
+	 */
+	getStats(): SyncStats {
+		return {
+			running: !!this.pendingSync,
+			countries: Array.from(this.checkpoints.values()).map((checkpoint) => ({
+				...checkpoint,
+				lastSync: new Date(checkpoint.lastSync).toISOString(),
+				lastRun: new Date(checkpoint.lastRun).toISOString(),
+			})),
+		};
+	}
+
+	// Private methods
+
+	private async run(country?: string): Promise<SyncCheckpoint[]> {
+		const scopes = catalogCache
+			.getCatalogScopes()
+			.filter((scope) => !country || scope.country === country);
+		const results: SyncCheckpoint[] = [];
+
+		if (scopes.length === 0) {
+			console.log("[CatalogSync] No live pools on this instance, nothing to sync");
+		}
+
+		// Sequential: each country costs several upstream calls
+		for (const scope of scopes) {
+			results.push(await this.syncCountry(scope));
+		}
+
+		return results;
+	}
+
+	private async syncCountry(scope: CatalogScope): Promise<SyncCheckpoint> {
+		const startedAt = Date.now();
+		const previous = this.checkpoints.get(scope.country);
+		const since = Math.max(
+			previous?.lastSync ?? scope.oldestUpdate,
+			startedAt - MAX_LOOKBACK_MS
+		);
+		const counts: SyncCounts = {
+			inserted: 0,
+			updated: 0,
+			removed: 0,
+			expiring: 0,
+		};
+		let pages = 0;
+
+		try {
+			let syncedUntil = startedAt;
+
+			// Show data in the feed is current, so applying it in any order ends in the same state
+			for (const changeType of ["removed", "updated", "new"] as const) {
+				const collected = await this.collect(
+					scope,
+					changeType,
+					since,
+					startedAt
+				);
+				pages += collected.pages;
+				syncedUntil = Math.min(syncedUntil, collected.syncedUntil);
+
+				for (const change of collected.changes) {
+					const show = collected.shows[change.showId];
+
+					if (show) {
+						const result = catalogCache.applyShowUpdate(
+							scope.country,
+							show,
+							{ insert: changeType === "new" }
+						);
+						counts.inserted += result.inserted;
+						counts.updated += result.updated;
+						counts.removed += result.removed;
+					} else if (changeType === "removed") {
+						counts.removed += catalogCache.evictShow(
+							scope.country,
+							change.showId
+						);
+					}
+				}
+			}
+
+			// Leaving dates lie in the future, so they are re-read on every run
+			const expiring = await this.collect(scope, "expiring");
+			pages += expiring.pages;
+
+			for (const change of expiring.changes) {
+				if (change.timestamp === undefined) continue;
+
+				counts.expiring += catalogCache.setExpiry(
+					scope.country,
+					change.showId,
+					change.serviceId,
+					change.timestamp
+				);
+			}
+
+			const checkpoint: SyncCheckpoint = {
+				country: scope.country,
+				lastSync: syncedUntil,
+				lastRun: startedAt,
+				pages,
+				counts,
+			};
+			this.checkpoints.set(scope.country, checkpoint);
+
+			console.log(
+				`[CatalogSync] ${scope.country}: +${counts.inserted} ~${counts.updated} -${counts.removed}, ${counts.expiring} expiring (${pages} pages)`
+			);
+
+			return checkpoint;
+		} catch (error) {
+			console.error(`[CatalogSync] ${scope.country} failed:`, error);
+
+			// Keep the old checkpoint so the next run retries the same window
+			const checkpoint: SyncCheckpoint = {
+				country: scope.country,
+				lastSync: since,
+				lastRun: startedAt,
+				pages,
+				counts,
+				error: error instanceof Error ? error.message : "Unknown error",
+			};
+			this.checkpoints.set(scope.country, checkpoint);
+
+			return checkpoint;
+		}
+	}
+
+	/**
+	 * Walk the change feed for one change type, up to MAX_PAGES_PER_TYPE pages
+	 */
+	private async collect(
+		scope: CatalogScope,
+		changeType: ChangeType,
+		from?: number,
+		to?: number
+	): Promise<CollectedChanges> {
+		const collected: CollectedChanges = {
+			changes: [],
+			shows: {},
+			pages: 0,
+			syncedUntil: to ?? Date.now(),
+		};
+		let cursor: string | undefined;
+
+		do {
+			const page = await streamingAvailabilityService.getChanges({
+				country: scope.country,
+				catalogs: scope.services,
+				changeType,
+				...(from !== undefined && { from: Math.floor(from / 1000) }),
+				...(to !== undefined && { to: Math.floor(to / 1000) }),
+				cursor,
+			});
+
+			collected.changes.push(...page.changes);
+			Object.assign(collected.shows, page.shows);
+			collected.pages++;
+			cursor = page.hasMore ? page.nextCursor : undefined;
+		} while (cursor && collected.pages < MAX_PAGES_PER_TYPE);
+
+		// Changes come oldest first: when cut short, resume after the last one applied
+		const last = collected.changes[collected.changes.length - 1];
+		if (cursor && last?.timestamp !== undefined) {
+			collected.syncedUntil = last.timestamp * 1000;
+		}
+
+		return collected;
+	}
+}
+
+// Singleton instance
+export const catalogSync = new CatalogSyncService();
@@ -0,0 +1,117 @@
+// NetPick - Country Catalog
+// Single source of supported countries and their services, backed by the upstream /countries endpoint
+
+import {
+	CountryInfo,
+	FALLBACK_COUNTRIES,
+	SUPPORTED_SERVICES,
+} from "@/lib/types/netflix";
+import { streamingAvailabilityService } from "./streamingAvailability";
+import { CachedList, CachedListSource } from "./cachedList";
+
+export interface CountryCatalogStats {
+	totalCountries: number;
+	source: CachedListSource;
+	lastRefresh: number;
+}
+
+const COUNTRY_TTL_MS =
+	parseFloat(process.env.COUNTRY_CACHE_TTL_HOURS || "168") * 60 * 60 * 1000;
+
+/**
+ * Flag emoji from an ISO 3166-1 alpha-2 code, via regional indicator symbols
+ */
+export function getFlagEmoji(countryCode: string): string {
+	if (!/^[a-z]{2}$/i.test(countryCode)) {
+		return "🌍";
+	}
+
+	return String.fromCodePoint(
+		...countryCode
+			.toUpperCase()
+			.split("")
+			.map((char) => 0x1f1e6 + char.charCodeAt(0) - 65)
+	);
+}
+
+export class CountryCatalogService {
+	private countries = new CachedList<CountryInfo>({
+		name: "CountryCatalog",
+		ttlMs: COUNTRY_TTL_MS,
+		fetch: () => this.fetchCountries(),
+		fallback: () => this.getFallbackCountries(),
+	});
+
+	/**
+	 * All countries, sorted by name
+	 */
+	async getCountries(): Promise<CountryInfo[]> {
+		return this.countries.get();
+	}
+
+	async getCountry(code: string): Promise<CountryInfo | undefined> {
+		const countries = await this.getCountries();
+		return countries.find((country) => country.code === code.toLowerCase());
+	}
+
+	async isSupported(code: string): Promise<boolean> {
+		return !!(await this.getCountry(code));
+	}
+
+	async getCountryCodes(): Promise<string[]> {
+		const countries = await this.getCountries();
+		return countries.map((country) => country.code);
+	}
+
+	/**
+	 * Service ids available in a country
+	 */
+	async getServiceIds(code: string): Promise<string[]> {
+		const country = await this.getCountry(code);
+		return country?.services.map((service) => service.id) || [];
+	}
+
+	getStats(): CountryCatalogStats {
+		const { total, source, lastRefresh } = this.countries.getStats();
+		return { totalCountries: total, source, lastRefresh };
+	}
+
+	// Private methods
+
+	private async fetchCountries(): Promise<CountryInfo[]> {
+		const apiCountries = await streamingAvailabilityService.getCountries();
+
+		return apiCountries
+			.map((country) => {
+				const code = country.countryCode.toLowerCase();
+
+				return {
+					code,
+					name: country.name,
+					flag: getFlagEmoji(code),
+					services: country.services.map((service) => ({
+						id: service.id,
+						name: service.name,
+						homePage: service.homePage,
+						themeColorCode: service.themeColorCode,
+					})),
+				};
+			})
+			.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	private getFallbackCountries(): CountryInfo[] {
+		return Object.entries(FALLBACK_COUNTRIES).map(([code, name]) => ({
+			code,
+			name,
+			flag: getFlagEmoji(code),
+			services: Object.entries(SUPPORTED_SERVICES).map(([id, serviceName]) => ({
+				id,
+				name: serviceName,
+			})),
+		}));
+	}
+}
+
+// Singleton instance
+export const countryCatalog = new CountryCatalogService();
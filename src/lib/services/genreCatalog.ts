@@ -0,0 +1,55 @@
+// NetPick - Genre Catalog
+// Genre ids and names accepted by the search filters, backed by the upstream /genres endpoint
+
+import { Genre, FALLBACK_GENRES } from "@/lib/types/netflix";
+import { streamingAvailabilityService } from "./streamingAvailability";
+import { CachedList, CachedListSource } from "./cachedList";
+
+export interface GenreCatalogStats {
+	totalGenres: number;
+	source: CachedListSource;
+	lastRefresh: number;
+}
+
+const GENRE_TTL_MS =
+	parseFloat(process.env.GENRE_CACHE_TTL_HOURS || "168") * 60 * 60 * 1000;
+
+export class GenreCatalogService {
+	private genres = new CachedList<Genre>({
+		name: "GenreCatalog",
+		ttlMs: GENRE_TTL_MS,
+		fetch: async () => {
+			const apiGenres = await streamingAvailabilityService.getGenres();
+
+			return apiGenres
+				.map((genre) => ({ id: genre.id, name: genre.name }))
+				.sort((a, b) => a.name.localeCompare(b.name));
+		},
+		fallback: () => [...FALLBACK_GENRES],
+	});
+
+	/**
+	 * All genres, sorted by name
+	 */
+	async getGenres(): Promise<Genre[]> {
+		return this.genres.get();
+	}
+
+	async getGenreIds(): Promise<string[]> {
+		const genres = await this.getGenres();
+		return genres.map((genre) => genre.id);
+	}
+
+	async isSupported(id: string): Promise<boolean> {
+		const ids = await this.getGenreIds();
+		return ids.includes(id);
+	}
+
+	getStats(): GenreCatalogStats {
+		const { total, source, lastRefresh } = this.genres.getStats();
+		return { totalGenres: total, source, lastRefresh };
+	}
+}
+
+// Singleton instance
+export const genreCatalog = new GenreCatalogService();
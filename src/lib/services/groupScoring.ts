@@ -0,0 +1,94 @@
+// NetPick - Group Scoring
+// How well a title suits each member of a group pick
+
+import { NetflixShow, GroupMemberPreferences } from "@/lib/types/netflix";
+import { fitsWatchTime } from "@/lib/utils/watchTime";
+
+export interface MemberFit {
+	satisfied: boolean; // Every wish met
+	score: number; // 0-1, share of the wishes met; 0 on a vetoed genre
+}
+
+export interface GroupFit {
+	satisfiedMembers: number;
+	score: number; // 0-1, average member score
+}
+
+/**
+ * The one show type everyone accepts, or any when members disagree
+ */
+export function getGroupShowType(
+	members: GroupMemberPreferences[]
+): "movie" | "series" | "any" {
+	const types = new Set(
+		members
+			.map((member) => member.showType)
+			.filter((type) => type && type !== "any")
+	);
+
+	return types.size === 1
+		? (Array.from(types)[0] as "movie" | "series")
+		: "any";
+}
+
+/**
+ * Whether any member vetoed one of the show's genres
+ */
+export function isVetoed(
+	show: NetflixShow,
+	members: GroupMemberPreferences[]
+): boolean {
+	return members.some((member) =>
+		show.genres.some((genre) => member.vetoedGenres?.includes(genre.id))
+	);
+}
+
+/**
+ * How well the show suits one member. A vetoed genre outweighs every other wish.
+ */
+export function getMemberFit(
+	show: NetflixShow,
+	member: GroupMemberPreferences
+): MemberFit {
+	const genreIds = show.genres.map((genre) => genre.id);
+
+	if (member.vetoedGenres?.some((genre) => genreIds.includes(genre))) {
+		return { satisfied: false, score: 0 };
+	}
+
+	const checks: boolean[] = [];
+
+	if (member.showType && member.showType !== "any") {
+		checks.push(show.showType === member.showType);
+	}
+	if (member.genres?.length) {
+		checks.push(member.genres.some((genre) => genreIds.includes(genre)));
+	}
+	if (member.maxMinutes !== undefined) {
+		checks.push(fitsWatchTime(show, undefined, member.maxMinutes));
+	}
+
+	const met = checks.filter(Boolean).length;
+
+	return {
+		satisfied: met === checks.length,
+		score: checks.length > 0 ? met / checks.length : 1,
+	};
+}
+
+/**
+ * How well the show suits the whole group
+ */
+export function getGroupFit(
+	show: NetflixShow,
+	members: GroupMemberPreferences[]
+): GroupFit {
+	const fits = members.map((member) => getMemberFit(show, member));
+
+	return {
+		satisfiedMembers: fits.filter((fit) => fit.satisfied).length,
+		score:
+			fits.reduce((total, fit) => total + fit.score, 0) /
+			Math.max(fits.length, 1),
+	};
+}
@@ -0,0 +1,212 @@
+// NetPick - Pick History Store
+// Per-user pick history behind excludeRecent, in memory or persisted to a JSON file
+
+import path from "path";
+import { NetflixShow } from "@/lib/types/netflix";
+import { JsonFileStore } from "@/lib/utils/jsonFile";
+
+export interface HistoryEntry {
+	showId: string;
+	title: string;
+	showType: "movie" | "series";
+	country: string;
+	pickedAt: number;
+}
+
+export interface HistoryStore {
+	readonly name: "memory" | "file";
+	/**
+	 * A user's picks, most recent first, without expired ones
+	 */
+	getHistory(userId: string): Promise<HistoryEntry[]>;
+	addPick(userId: string, entry: HistoryEntry): Promise<void>;
+	clear(userId: string): Promise<number>;
+	getStats(): Promise<HistoryStoreStats>;
+}
+
+export interface HistoryStoreStats {
+	store: HistoryStore["name"];
+	users: number;
+	entries: number;
+	depth: number;
+	retentionDays: number;
+	maxUsers: number;
+}
+
+type HistoryData = Record<string, HistoryEntry[]>;
+
+export const HISTORY_DEPTH = parseInt(process.env.HISTORY_DEPTH || "50");
+const RETENTION_DAYS = parseInt(process.env.HISTORY_RETENTION_DAYS || "30");
+const RETENTION_MS = RETENTION_DAYS * 24 * 60 * 60 * 1000;
+// Cookieless clients get a new session per request, so users are capped as well
+const MAX_USERS = parseInt(process.env.HISTORY_MAX_USERS || "10000");
+// Expired entries are filtered on read, so a full sweep every write is not needed
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * History entry for a freshly picked show
+ */
+export function toHistoryEntry(show: NetflixShow, country: string): HistoryEntry {
+	return {
+		showId: show.id,
+		title: show.title,
+		showType: show.showType,
+		country,
+		pickedAt: Date.now(),
+	};
+}
+
+/**
+ * Cap a user's picks to the configured depth and retention
+ */
+function trim(entries: HistoryEntry[]): HistoryEntry[] {
+	const cutoff = Date.now() - RETENTION_MS;
+
+	return entries
+		.filter((entry) => entry.pickedAt >= cutoff)
+		.slice(0, HISTORY_DEPTH);
+}
+
+export class MemoryHistoryStore implements HistoryStore {
+	readonly name: HistoryStore["name"] = "memory";
+
+	protected data: HistoryData = {};
+	private lastPrune = 0;
+
+	async getHistory(userId: string): Promise<HistoryEntry[]> {
+		await this.load();
+		return trim(this.data[userId] || []);
+	}
+
+	async addPick(userId: string, entry: HistoryEntry): Promise<void> {
+		await this.load();
+
+		// A repeat pick moves to the top instead of appearing twice
+		const previous = (this.data[userId] || []).filter(
+			(existing) =>
+				existing.showId !== entry.showId || existing.country !== entry.country
+		);
+		// Re-added last, so users stay ordered from least to most recently picked
+		delete this.data[userId];
+		this.data[userId] = trim([entry, ...previous]);
+
+		await this.save();
+	}
+
+	async clear(userId: string): Promise<number> {
+		await this.load();
+
+		const removed = this.data[userId]?.length || 0;
+		delete this.data[userId];
+
+		await this.save();
+
+		return removed;
+	}
+
+	async getStats(): Promise<HistoryStoreStats> {
+		await this.load();
+		this.prune();
+
+		return {
+			store: this.name,
+			users: Object.keys(this.data).length,
+			entries: Object.values(this.data).reduce(
+				(total, entries) => total + entries.length,
+				0
+			),
+			depth: HISTORY_DEPTH,
+			retentionDays: RETENTION_DAYS,
+			maxUsers: MAX_USERS,
+		};
+	}
+
+	// Persistence hooks, no-ops in memory
+
+	protected async load(): Promise<void> {}
+
+	protected async save(): Promise<void> {
+		this.pruneIfDue();
+	}
+
+	/**
+	 * Drop expired entries and users left without any, then the least recently
+	 * picked users over the cap
+	 */
+	protected prune(): void {
+		this.lastPrune = Date.now();
+
+		for (const [userId, entries] of Object.entries(this.data)) {
+			const kept = trim(entries);
+
+			if (kept.length === 0) {
+				delete this.data[userId];
+			} else {
+				this.data[userId] = kept;
+			}
+		}
+
+		this.evictUsers();
+	}
+
+	/**
+	 * Prune on the interval, otherwise only enforce the user cap
+	 */
+	protected pruneIfDue(): void {
+		if (Date.now() - this.lastPrune >= PRUNE_INTERVAL_MS) {
+			this.prune();
+		} else {
+			this.evictUsers();
+		}
+	}
+
+	// Private methods
+
+	private evictUsers(): void {
+		const userIds = Object.keys(this.data);
+		const excess = Math.max(0, userIds.length - MAX_USERS);
+
+		for (const userId of userIds.slice(0, excess)) {
+			delete this.data[userId];
+		}
+	}
+}
+
+/**
+ * History written through to a JSON file so it survives restarts
+ */
+export class FileHistoryStore extends MemoryHistoryStore {
+	readonly name: HistoryStore["name"] = "file";
+
+	private readonly file: JsonFileStore<HistoryData>;
+
+	constructor(filePath: string) {
+		super();
+		this.file = new JsonFileStore(filePath, "HistoryStore");
+	}
+
+	protected load(): Promise<void> {
+		return this.file.load((data) => {
+			this.data = data;
+			this.prune();
+		});
+	}
+
+	protected save(): Promise<void> {
+		this.pruneIfDue();
+		return this.file.save(this.data);
+	}
+}
+
+function createHistoryStore(): HistoryStore {
+	if (process.env.HISTORY_STORE === "file") {
+		return new FileHistoryStore(
+			path.resolve(process.env.HISTORY_FILE || ".netpick/history.json")
+		);
+	}
+
+	return new MemoryHistoryStore();
+}
+
+// Singleton instance
+export const historyStore = createHistoryStore();
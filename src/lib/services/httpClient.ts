@@ -0,0 +1,355 @@
+// NetPick - Resilient HTTP Client
+// Timeouts, jittered retries, Retry-After handling and a circuit breaker around upstream APIs
+
+import { APIError } from "@/lib/types/netflix";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitStats {
+	state: CircuitState;
+	consecutiveFailures: number;
+	openedAt: number | null;
+	lastFailure: number | null;
+	totalRequests: number;
+	totalRetries: number;
+	rejectedRequests: number; // Short-circuited while open
+}
+
+export interface HttpClientOptions {
+	name: string; // Log prefix and error messages
+	timeoutMs?: number;
+	maxRetries?: number;
+	budgetMs?: number; // Total time across attempts and waits
+	failureThreshold?: number;
+	resetTimeoutMs?: number;
+}
+
+export interface RequestOptions {
+	onAttempt?: (attempt: number) => void; // Called before every attempt, retries included; throw to stop
+	onResponse?: (response: Response) => void; // Called for every attempt that got an answer
+}
+
+type AttemptResult<T> =
+	| { data: T }
+	| { failure: APIError; retryAfter: string | null };
+
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.HTTP_TIMEOUT_MS || "4000");
+const DEFAULT_MAX_RETRIES = parseInt(process.env.HTTP_MAX_RETRIES || "2");
+// Leaves headroom under the 10s function limit in vercel.json
+const DEFAULT_BUDGET_MS = parseInt(process.env.HTTP_RETRY_BUDGET_MS || "8000");
+const DEFAULT_FAILURE_THRESHOLD = parseInt(
+	process.env.CIRCUIT_FAILURE_THRESHOLD || "5"
+);
+const DEFAULT_RESET_TIMEOUT_MS = parseInt(
+	process.env.CIRCUIT_RESET_TIMEOUT_MS || "30000"
+);
+// What to tell clients refused because of an upstream failure: about one circuit reset
+export const RETRY_AFTER_SECONDS = Math.ceil(DEFAULT_RESET_TIMEOUT_MS / 1000);
+const BASE_BACKOFF_MS = 250;
+const MAX_BACKOFF_MS = 2000;
+
+/**
+ * Statuses worth retrying: rate limiting and transient upstream failures
+ */
+function isRetryableStatus(status: number): boolean {
+	return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Errors worth retrying against another provider: quota (429), upstream 5xx and network failures
+ */
+export function isFailoverError(error: unknown): boolean {
+	if (error instanceof APIError) {
+		return (
+			error.statusCode === undefined ||
+			error.statusCode === 429 ||
+			error.statusCode >= 500
+		);
+	}
+
+	// fetch rejects with a TypeError when the network is unreachable
+	return error instanceof TypeError;
+}
+
+export class HttpClient {
+	private readonly name: string;
+	private readonly timeoutMs: number;
+	private readonly maxRetries: number;
+	private readonly budgetMs: number;
+	private readonly failureThreshold: number;
+	private readonly resetTimeoutMs: number;
+
+	private state: CircuitState = "closed";
+	private consecutiveFailures = 0;
+	private openedAt: number | null = null;
+	private lastFailure: number | null = null;
+	private halfOpenProbe = false;
+	private totalRequests = 0;
+	private totalRetries = 0;
+	private rejectedRequests = 0;
+
+	constructor(options: HttpClientOptions) {
+		this.name = options.name;
+		this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+		this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+		this.budgetMs = options.budgetMs ?? DEFAULT_BUDGET_MS;
+		this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+		this.resetTimeoutMs = options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+	}
+
+	/**
+	 * GET a URL and parse the JSON body, retrying transient failures within the budget
+	 * Throws APIError: upstream status, 504 on timeout, 503 while the circuit is open
+	 */
+	async getJson<T>(
+		url: string,
+		headers: Record<string, string>,
+		options: RequestOptions = {}
+	): Promise<T> {
+		const deadline = Date.now() + this.budgetMs;
+
+		for (let attempt = 0; ; attempt++) {
+			options.onAttempt?.(attempt);
+			this.acquire();
+			this.totalRequests++;
+
+			const result = await this.send<T>(url, headers, deadline, options);
+			if ("data" in result) {
+				return result.data;
+			}
+
+			this.recordFailure();
+
+			const delay = this.getRetryDelay(attempt, result.retryAfter);
+			if (!this.canRetry(attempt, delay, deadline)) {
+				throw result.failure;
+			}
+
+			await this.wait(delay, attempt, result.failure.statusCode!);
+			this.totalRetries++;
+		}
+	}
+
+	/**
+	 * Circuit breaker state for monitoring
+	 */
+	getStats(): CircuitStats {
+		return {
+			state: this.getState(),
+			consecutiveFailures: this.consecutiveFailures,
+			openedAt: this.openedAt,
+			lastFailure: this.lastFailure,
+			totalRequests: this.totalRequests,
+			totalRetries: this.totalRetries,
+			rejectedRequests: this.rejectedRequests,
+		};
+	}
+
+	// Private methods
+
+	private getState(): CircuitState {
+		if (
+			this.state === "open" &&
+			this.openedAt !== null &&
+			Date.now() - this.openedAt >= this.resetTimeoutMs
+		) {
+			return "half-open";
+		}
+
+		return this.state;
+	}
+
+	/**
+	 * Let a request through, or fail fast while the circuit is open.
+	 * After the reset timeout a single probe request decides whether to close it again.
+	 */
+	private acquire(): void {
+		const state = this.getState();
+
+		if (state === "closed") {
+			return;
+		}
+
+		if (state === "half-open" && !this.halfOpenProbe) {
+			this.state = "half-open";
+			this.halfOpenProbe = true;
+			return;
+		}
+
+		this.rejectedRequests++;
+		throw new APIError(
+			`${this.name} API circuit open, skipping request`,
+			503,
+			"circuit-open"
+		);
+	}
+
+	private recordSuccess(): void {
+		if (this.state !== "closed") {
+			console.log(`[HttpClient] ${this.name} circuit closed`);
+		}
+
+		this.state = "closed";
+		this.consecutiveFailures = 0;
+		this.openedAt = null;
+		this.halfOpenProbe = false;
+	}
+
+	private recordFailure(): void {
+		this.consecutiveFailures++;
+		this.lastFailure = Date.now();
+
+		const probeFailed = this.state === "half-open";
+		if (probeFailed || this.consecutiveFailures >= this.failureThreshold) {
+			if (this.state !== "open") {
+				console.warn(
+					`[HttpClient] ${this.name} circuit open after ${this.consecutiveFailures} failures`
+				);
+			}
+
+			this.state = "open";
+			this.openedAt = Date.now();
+			this.halfOpenProbe = false;
+		}
+	}
+
+	/**
+	 * One attempt: the parsed body, or a retryable failure. Non-retryable statuses throw.
+	 */
+	private async send<T>(
+		url: string,
+		headers: Record<string, string>,
+		deadline: number,
+		options: RequestOptions
+	): Promise<AttemptResult<T>> {
+		let response: Response;
+
+		try {
+			response = await this.fetchWithTimeout(url, headers, deadline);
+		} catch (error) {
+			return { failure: this.toAPIError(error), retryAfter: null };
+		}
+
+		options.onResponse?.(response);
+
+		if (response.ok) {
+			try {
+				const data = (await response.json()) as T;
+				this.recordSuccess();
+				return { data };
+			} catch (error) {
+				// Truncated or HTML error pages behind a proxy
+				return {
+					failure: new APIError(
+						`${this.name} API returned an unreadable body`,
+						502,
+						error instanceof Error ? error.message : "Unknown error"
+					),
+					retryAfter: null,
+				};
+			}
+		}
+
+		const failure = new APIError(
+			`${this.name} API error: ${response.status}`,
+			response.status,
+			await response.text()
+		);
+
+		if (!isRetryableStatus(response.status)) {
+			// The upstream answered; a 4xx says nothing about its health
+			this.recordSuccess();
+			throw failure;
+		}
+
+		return { failure, retryAfter: response.headers.get("retry-after") };
+	}
+
+	private async fetchWithTimeout(
+		url: string,
+		headers: Record<string, string>,
+		deadline: number
+	): Promise<Response> {
+		const timeout = Math.min(this.timeoutMs, Math.max(deadline - Date.now(), 0));
+		const controller = new AbortController();
+		const timer = setTimeout(() => controller.abort(), timeout);
+
+		try {
+			return await fetch(url, {
+				method: "GET",
+				headers,
+				signal: controller.signal,
+			});
+		} catch (error) {
+			if (controller.signal.aborted) {
+				throw new APIError(
+					`${this.name} API timed out after ${timeout}ms`,
+					504,
+					url
+				);
+			}
+
+			throw error;
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+
+	/**
+	 * Network failures (fetch rejects with a TypeError) count as an unavailable upstream
+	 */
+	private toAPIError(error: unknown): APIError {
+		if (error instanceof APIError) {
+			return error;
+		}
+
+		return new APIError(
+			`${this.name} API unreachable`,
+			503,
+			error instanceof Error ? error.message : "Unknown error"
+		);
+	}
+
+	/**
+	 * Retry-After when the upstream sends one, else full-jitter exponential backoff
+	 */
+	private getRetryDelay(attempt: number, retryAfter: string | null): number {
+		if (retryAfter) {
+			const seconds = Number(retryAfter);
+			if (!isNaN(seconds)) {
+				return Math.max(seconds, 0) * 1000;
+			}
+
+			const date = Date.parse(retryAfter);
+			if (!isNaN(date)) {
+				return Math.max(date - Date.now(), 0);
+			}
+		}
+
+		const ceiling = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+		return Math.random() * ceiling;
+	}
+
+	private canRetry(attempt: number, delay: number, deadline: number): boolean {
+		// A wait that would blow the budget is worse than failing over now
+		return (
+			attempt < this.maxRetries &&
+			this.getState() !== "open" &&
+			Date.now() + delay < deadline
+		);
+	}
+
+	private async wait(
+		delay: number,
+		attempt: number,
+		status: number
+	): Promise<void> {
+		console.warn(
+			`[HttpClient] ${this.name} retry ${attempt + 1}/${
+				this.maxRetries
+			} in ${Math.round(delay)}ms (${status})`
+		);
+
+		await new Promise((resolve) => setTimeout(resolve, delay));
+	}
+}
@@ -0,0 +1,203 @@
+// NetPick - Preference Store
+// Per-user watchlist and "not interested" titles, in memory or persisted to a JSON file
+
+import path from "path";
+import { NetflixShow } from "@/lib/types/netflix";
+import { JsonFileStore } from "@/lib/utils/jsonFile";
+
+export interface WatchlistEntry {
+	showId: string;
+	title: string;
+	showType: "movie" | "series";
+	year?: number;
+	poster?: string;
+	country: string; // Where it was saved, the default country for availability checks
+	addedAt: number;
+}
+
+export interface DismissedEntry {
+	showId: string;
+	title: string;
+	genres: string[]; // Genre ids, to down-weight similar titles
+	dismissedAt: number;
+}
+
+export interface UserPreferences {
+	watchlist: WatchlistEntry[]; // Most recently saved first
+	dismissed: DismissedEntry[]; // Most recently dismissed first
+}
+
+export interface PreferenceStore {
+	readonly name: "memory" | "file";
+	getPreferences(userId: string): Promise<UserPreferences>;
+	/**
+	 * Returns false when the show was already on the watchlist
+	 */
+	addToWatchlist(userId: string, entry: WatchlistEntry): Promise<boolean>;
+	removeFromWatchlist(userId: string, showId: string): Promise<boolean>;
+	/**
+	 * Dismissing a saved show also takes it off the watchlist
+	 */
+	dismiss(userId: string, entry: DismissedEntry): Promise<void>;
+	undismiss(userId: string, showId: string): Promise<boolean>;
+}
+
+type PreferenceData = Record<string, UserPreferences>;
+
+export const WATCHLIST_MAX = parseInt(process.env.WATCHLIST_MAX || "100");
+const DISMISSED_MAX = parseInt(process.env.DISMISSED_MAX || "500");
+
+/**
+ * Watchlist entry for a show saved in a country
+ */
+export function toWatchlistEntry(
+	show: NetflixShow,
+	country: string
+): WatchlistEntry {
+	return {
+		showId: show.id,
+		title: show.title,
+		showType: show.showType,
+		year: show.releaseYear || show.firstAirYear,
+		poster:
+			show.imageSet.verticalPoster?.w240 || show.imageSet.verticalPoster?.w360,
+		country,
+		addedAt: Date.now(),
+	};
+}
+
+/**
+ * Dismissed entry for a show the user is not interested in
+ */
+export function toDismissedEntry(show: NetflixShow): DismissedEntry {
+	return {
+		showId: show.id,
+		title: show.title,
+		genres: show.genres.map((genre) => genre.id),
+		dismissedAt: Date.now(),
+	};
+}
+
+export class MemoryPreferenceStore implements PreferenceStore {
+	readonly name: PreferenceStore["name"] = "memory";
+
+	protected data: PreferenceData = {};
+
+	async getPreferences(userId: string): Promise<UserPreferences> {
+		await this.load();
+		return this.data[userId] || { watchlist: [], dismissed: [] };
+	}
+
+	async addToWatchlist(userId: string, entry: WatchlistEntry): Promise<boolean> {
+		const preferences = await this.getUserData(userId);
+
+		if (preferences.watchlist.some((saved) => saved.showId === entry.showId)) {
+			return false;
+		}
+
+		preferences.watchlist = [entry, ...preferences.watchlist].slice(
+			0,
+			WATCHLIST_MAX
+		);
+		// Saving a show takes back an earlier "not interested"
+		preferences.dismissed = preferences.dismissed.filter(
+			(dismissed) => dismissed.showId !== entry.showId
+		);
+
+		await this.save();
+		return true;
+	}
+
+	async removeFromWatchlist(userId: string, showId: string): Promise<boolean> {
+		const preferences = await this.getUserData(userId);
+		const before = preferences.watchlist.length;
+
+		preferences.watchlist = preferences.watchlist.filter(
+			(saved) => saved.showId !== showId
+		);
+
+		await this.save();
+		return preferences.watchlist.length < before;
+	}
+
+	async dismiss(userId: string, entry: DismissedEntry): Promise<void> {
+		const preferences = await this.getUserData(userId);
+
+		preferences.dismissed = [
+			entry,
+			...preferences.dismissed.filter(
+				(dismissed) => dismissed.showId !== entry.showId
+			),
+		].slice(0, DISMISSED_MAX);
+		preferences.watchlist = preferences.watchlist.filter(
+			(saved) => saved.showId !== entry.showId
+		);
+
+		await this.save();
+	}
+
+	async undismiss(userId: string, showId: string): Promise<boolean> {
+		const preferences = await this.getUserData(userId);
+		const before = preferences.dismissed.length;
+
+		preferences.dismissed = preferences.dismissed.filter(
+			(dismissed) => dismissed.showId !== showId
+		);
+
+		await this.save();
+		return preferences.dismissed.length < before;
+	}
+
+	// Persistence hooks, no-ops in memory
+
+	protected async load(): Promise<void> {}
+
+	protected async save(): Promise<void> {}
+
+	private async getUserData(userId: string): Promise<UserPreferences> {
+		await this.load();
+
+		if (!this.data[userId]) {
+			this.data[userId] = { watchlist: [], dismissed: [] };
+		}
+
+		return this.data[userId];
+	}
+}
+
+/**
+ * Watchlists and dismissals written through to a JSON file so they survive restarts
+ */
+export class FilePreferenceStore extends MemoryPreferenceStore {
+	readonly name: PreferenceStore["name"] = "file";
+
+	private readonly file: JsonFileStore<PreferenceData>;
+
+	constructor(filePath: string) {
+		super();
+		this.file = new JsonFileStore(filePath, "PreferenceStore");
+	}
+
+	protected load(): Promise<void> {
+		return this.file.load((data) => {
+			this.data = data;
+		});
+	}
+
+	protected save(): Promise<void> {
+		return this.file.save(this.data);
+	}
+}
+
+function createPreferenceStore(): PreferenceStore {
+	if (process.env.PREFERENCES_STORE === "file") {
+		return new FilePreferenceStore(
+			path.resolve(process.env.PREFERENCES_FILE || ".netpick/preferences.json")
+		);
+	}
+
+	return new MemoryPreferenceStore();
+}
+
+// Singleton instance
+export const preferenceStore = createPreferenceStore();
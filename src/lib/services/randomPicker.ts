@@ -1,78 +1,159 @@
 // NetPick - Simple Random Picker
-// Direct API calls for immediate Netflix content discovery
+// Picks random Netflix content from the cached catalog pools
 
 import {
 	NetflixShow,
 	RandomPickerConfig,
+	CatalogQuery,
+	CatalogProviderName,
 	DiscoverResponse,
+	DiscoverMode,
+	GroupPickConfig,
+	GroupDiscoverResponse,
+	ChangeType,
+	SelectionStrategyName,
 	SupportedCountry,
+	VideoQuality,
+	DEFAULT_SERVICES,
+	VIDEO_QUALITIES,
+	APIError,
 } from "@/lib/types/netflix";
-import { streamingAvailabilityService } from "./streamingAvailability";
+import { catalogProviders, ProviderLookup } from "./catalogProvider";
+import { catalogCache } from "./catalogCache";
+import { isFailoverError } from "./httpClient";
+import {
+	selectionStrategies,
+	getShowQualityScore,
+	DEFAULT_STRATEGY,
+} from "./selectionStrategies";
+import { getGroupShowType, getGroupFit, isVetoed } from "./groupScoring";
+import { historyStore, toHistoryEntry } from "./historyStore";
+import { preferenceStore, DismissedEntry } from "./preferenceStore";
+import { createRandom, createSeed, RandomSource } from "@/lib/utils/random";
+import { fitsWatchTime } from "@/lib/utils/watchTime";
+import { matchesFilters } from "@/lib/utils/catalogFilters";
 
 export interface PickerStats {
 	totalPicks: number;
+	fallbackPicks: number; // Picks served by a provider other than the primary
 	averageResponseTime: number;
 	lastPickTimestamp: number;
 }
 
+// Most distinct titles one discover request can return
+export const MAX_PICK_COUNT = 5;
+
+// The change feed reaches at most a month ahead or back
+export const MAX_CHANGE_DAYS = 31;
+
+/**
+ * A configured window in days, clamped to what the change feed covers
+ */
+function getWindowDays(value: string | undefined, fallback: number): number {
+	const days = parseInt(value || String(fallback));
+	return isNaN(days) ? fallback : Math.min(Math.max(days, 1), MAX_CHANGE_DAYS);
+}
+
+export const DEFAULT_LEAVING_DAYS = getWindowDays(process.env.LEAVING_SOON_DAYS, 14);
+export const DEFAULT_ARRIVAL_DAYS = getWindowDays(process.env.NEW_ARRIVALS_DAYS, 7);
+
+// Modes backed by the upstream change feed instead of the catalog pools
+const MODE_CHANGE_TYPES: Partial<Record<DiscoverMode, ChangeType>> = {
+	"leaving-soon": "expiring",
+	"new-arrivals": "new",
+};
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A genre counts as disliked once this many dismissed titles share it
+const DISLIKED_GENRE_MIN_DISMISSALS = 2;
+// Weight multiplier per disliked genre, applied for up to three genres
+const DISLIKED_GENRE_WEIGHT = 0.5;
+// Group compromises draw from titles scoring within this much of the best one
+const COMPROMISE_SCORE_MARGIN = 0.1;
+
+interface ShowSelection {
+	shows: NetflixShow[]; // Distinct, in pick order
+	strategy: SelectionStrategyName;
+	fromCache: boolean;
+	provider: CatalogProviderName;
+}
+
+interface CandidateLookup extends ProviderLookup {
+	provider: CatalogProviderName;
+}
+
 export class RandomPickerService {
-	private recentPicks: Map<string, NetflixShow[]> = new Map(); // Track recent picks per user
 	private stats: PickerStats = {
 		totalPicks: 0,
+		fallbackPicks: 0,
 		averageResponseTime: 0,
 		lastPickTimestamp: 0,
 	};
 
-	private readonly maxRecentPicks = 10; // Remember last 10 picks per user
-
 	/**
-	 * Main discover method - Returns a random Netflix show via direct API call
+	 * Main discover method - Returns random Netflix shows from the catalog cache.
+	 * With a count above one, the shows are distinct and drawn from one candidate set.
 	 */
 	async discover(
 		config: RandomPickerConfig,
-		userId?: string
+		userId?: string,
+		count = 1
 	): Promise<DiscoverResponse> {
 		const startTime = Date.now();
+		// The seed is not a catalog filter, keep it out of the pool key
+		const { seed: requestedSeed, ...pickConfig } = config;
+		const seed = requestedSeed ?? createSeed();
+		const random = createRandom(seed);
+
+		// A replayed seed must see the same candidates whoever replays it, so the
+		// user's recent picks, dismissals and disliked genres are left out of it
+		const pickUserId = requestedSeed ? undefined : userId;
 
 		try {
-			const show = await this.selectRandomShow(config, userId);
+			let selection = await this.selectRandomShows(
+				pickConfig,
+				random,
+				count,
+				pickUserId
+			);
 
-			if (!show) {
-				// Fallback: try without restrictions
-				const fallbackShow = await this.selectRandomShow(
+			if (!selection || selection.shows.length < count) {
+				// Fallback: allow recent picks again, but keep the requested filters
+				const fallback = await this.selectRandomShows(
 					{
-						...config,
+						...pickConfig,
 						excludeRecent: false,
-						minRating: undefined,
 					},
-					userId
+					random,
+					count,
+					pickUserId
 				);
 
-				if (!fallbackShow) {
-					throw new Error(
-						`No Netflix ${config.showType || "content"} found for ${
-							config.country
-						}`
-					);
+				if (
+					fallback &&
+					fallback.shows.length > (selection?.shows.length ?? 0)
+				) {
+					selection = fallback;
 				}
+			}
 
-				return this.buildResponse(
-					fallbackShow,
-					config.country as SupportedCountry,
-					false,
-					startTime
-				);
+			if (!selection) {
+				throw new APIError(this.getEmptyMessage(config), 404);
 			}
 
-			// Track this pick for diversity
+			// Track these picks for diversity
 			if (userId) {
-				this.trackUserPick(userId, show);
+				for (const show of selection.shows) {
+					await historyStore.addPick(
+						userId,
+						toHistoryEntry(show, config.country)
+					);
+				}
 			}
 
 			return this.buildResponse(
-				show,
+				selection,
 				config.country as SupportedCountry,
-				false, // No cache anymore
+				seed,
 				startTime
 			);
 		} catch (error) {
@@ -81,6 +162,95 @@ export class RandomPickerService {
 		}
 	}
 
+	/**
+	 * Pick titles for a group: drawn from the titles that suit every member,
+	 * or from the best compromises when too few do. The fit describes the first pick.
+	 */
+	async discoverForGroup(
+		config: GroupPickConfig,
+		count = 1
+	): Promise<GroupDiscoverResponse> {
+		const startTime = Date.now();
+		const {
+			country,
+			services = DEFAULT_SERVICES,
+			members,
+			strategy = DEFAULT_STRATEGY,
+		} = config;
+		const seed = config.seed ?? createSeed();
+		const random = createRandom(seed);
+		const showType = getGroupShowType(members);
+
+		try {
+			// Preferences are scored here rather than sent upstream, so one pool serves the group
+			const query: CatalogQuery = {
+				country,
+				showType,
+				services,
+				...(showType !== "movie" &&
+					members.some((member) => member.maxMinutes !== undefined) && {
+						seriesGranularity: "episode" as const,
+					}),
+			};
+			const { shows, fromCache, provider } = await this.getCandidates(query);
+
+			const presentable = shows.filter((show) =>
+				this.isPresentable(show, services)
+			);
+
+			if (presentable.length === 0) {
+				throw new Error(this.getEmptyMessage({ country }));
+			}
+
+			// Vetoes are never compromised on, only the other wishes are
+			const candidates = presentable
+				.filter((show) => !isVetoed(show, members))
+				.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+			if (candidates.length === 0) {
+				throw new Error(
+					`Every title found for ${country} has a genre someone vetoed`
+				);
+			}
+
+			const fits = candidates.map((show) => getGroupFit(show, members));
+			let shortlist = candidates.filter(
+				(_, i) => fits[i].satisfiedMembers === members.length
+			);
+
+			if (shortlist.length < count) {
+				// Too few suit everyone: widen to the titles scoring close to the count-th best
+				const scores = fits.map((fit) => fit.score).sort((a, b) => b - a);
+				const threshold =
+					scores[Math.min(count, scores.length) - 1] - COMPROMISE_SCORE_MARGIN;
+				shortlist = candidates.filter((_, i) => fits[i].score >= threshold);
+			}
+
+			const picks = this.pickDistinct(
+				shortlist,
+				selectionStrategies[strategy].weigh(shortlist),
+				count,
+				random
+			);
+			const fit = fits[candidates.indexOf(picks[0])];
+
+			return {
+				...this.buildResponse(
+					{ shows: picks, strategy, fromCache, provider },
+					country as SupportedCountry,
+					seed,
+					startTime
+				),
+				compromise: fit.satisfiedMembers < members.length,
+				satisfiedMembers: fit.satisfiedMembers,
+				groupScore: fit.score,
+			};
+		} catch (error) {
+			console.error("[RandomPicker] Group discovery failed:", error);
+			throw error;
+		}
+	}
+
 	/**
 	 * Get picker statistics
 	 */
@@ -89,27 +259,63 @@ export class RandomPickerService {
 	}
 
 	/**
-	 * Clear user's recent picks
+	 * Clear user's recent picks, returns how many were removed
 	 */
-	clearUserHistory(userId: string): void {
-		this.recentPicks.delete(userId);
+	clearUserHistory(userId: string): Promise<number> {
+		return historyStore.clear(userId);
 	}
 
 	// Private methods
 
-	private async selectRandomShow(
+	private async selectRandomShows(
 		config: RandomPickerConfig,
+		random: RandomSource,
+		count: number,
 		userId?: string
-	): Promise<NetflixShow | null> {
-		const { country, showType, excludeRecent = true, minRating } = config;
+	): Promise<ShowSelection | null> {
+		const {
+			country,
+			showType,
+			services = DEFAULT_SERVICES,
+			excludeRecent = true,
+			mode = "random",
+			withinDays = DEFAULT_LEAVING_DAYS,
+			sinceDays = DEFAULT_ARRIVAL_DAYS,
+			strategy = DEFAULT_STRATEGY,
+			minMinutes,
+			maxMinutes,
+			audio,
+			subtitle,
+			closedCaptions = false,
+			minQuality,
+			...filters
+		} = config;
+		const timeBound = minMinutes !== undefined || maxMinutes !== undefined;
+		const languageBound = !!audio || !!subtitle || closedCaptions;
 
 		try {
-			// Get popular shows from API directly (more reliable)
-			const candidates =
-				await streamingAvailabilityService.getPopularShows(
-					country as SupportedCountry,
-					showType === "any" ? undefined : showType
-				);
+			const query: CatalogQuery = {
+				country,
+				showType: showType || "any",
+				services,
+				filters,
+				// Series need episode runtimes to be checked against a time bound.
+				// The change feed has no episode data, so those modes rely on the estimate.
+				...(timeBound &&
+					showType !== "movie" &&
+					!MODE_CHANGE_TYPES[mode] && { seriesGranularity: "episode" as const }),
+			};
+
+			// Candidates come from the cached pool, filled from the API on a miss.
+			// Leaving-soon and new-arrival titles come from the change feed instead.
+			const changeType = MODE_CHANGE_TYPES[mode];
+			const {
+				shows: candidates,
+				fromCache,
+				provider,
+			} = changeType
+				? await this.getChangedCandidates(query, changeType)
+				: await this.getCandidates(query);
 
 			if (candidates.length === 0) {
 				console.warn(
@@ -123,32 +329,64 @@ export class RandomPickerService {
 			// Apply filters
 			let filteredCandidates = candidates;
 
-			// Filter by minimum rating
-			if (minRating) {
+			// Upstream applies the filters too; re-check ranges so no cached show leaks past them
+			filteredCandidates = filteredCandidates.filter((show) =>
+				matchesFilters(show, filters)
+			);
+
+			if (mode === "leaving-soon") {
+				filteredCandidates = filteredCandidates.filter((show) =>
+					this.leavesWithin(show, services, withinDays)
+				);
+			} else if (mode === "new-arrivals") {
+				filteredCandidates = filteredCandidates.filter((show) =>
+					this.arrivedWithin(show, services, sinceDays)
+				);
+			}
+
+			// Titles the user is not interested in never come back
+			const dismissed = userId
+				? (await preferenceStore.getPreferences(userId)).dismissed
+				: [];
+			if (dismissed.length > 0) {
+				const dismissedIds = new Set(dismissed.map((entry) => entry.showId));
 				filteredCandidates = filteredCandidates.filter(
-					(show) => show.rating >= minRating
+					(show) => !dismissedIds.has(show.id)
+				);
+			}
+
+			if (timeBound) {
+				filteredCandidates = filteredCandidates.filter((show) =>
+					fitsWatchTime(show, minMinutes, maxMinutes)
+				);
+			}
+
+			// Upstream cannot search by audio or subtitles, so languages are checked here
+			if (languageBound) {
+				filteredCandidates = filteredCandidates.filter((show) =>
+					this.hasLanguages(show, services, audio, subtitle, closedCaptions)
+				);
+			}
+
+			if (minQuality) {
+				filteredCandidates = filteredCandidates.filter((show) =>
+					this.meetsQuality(show, services, minQuality)
 				);
 			}
 
 			// Filter out recent picks for this user
 			if (excludeRecent && userId) {
-				const recentPicks = this.getUserRecentPicks(userId);
-				const recentIds = new Set(recentPicks.map((show) => show.id));
+				const history = await historyStore.getHistory(userId);
+				const recentIds = new Set(history.map((entry) => entry.showId));
 				filteredCandidates = filteredCandidates.filter(
 					(show) => !recentIds.has(show.id)
 				);
 			}
 
 			// Quality filters
-			filteredCandidates = filteredCandidates.filter((show) => {
-				return (
-					show.title &&
-					show.overview &&
-					show.netflixLink &&
-					show.imageSet?.verticalPoster?.w480 &&
-					show.rating > 0
-				);
-			});
+			filteredCandidates = filteredCandidates.filter((show) =>
+				this.isPresentable(show, services)
+			);
 
 			if (filteredCandidates.length === 0) {
 				console.warn(
@@ -159,80 +397,298 @@ export class RandomPickerService {
 				return null;
 			}
 
-			// Use weighted random selection based on rating
-			return this.weightedRandomSelection(filteredCandidates);
+			// Pool order shifts as syncs insert shows; sort so a seed only depends on the set
+			filteredCandidates.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+			const weights = this.downWeightDislikedGenres(
+				filteredCandidates,
+				selectionStrategies[strategy].weigh(filteredCandidates),
+				dismissed
+			);
+
+			return {
+				shows: this.pickDistinct(filteredCandidates, weights, count, random),
+				strategy,
+				fromCache,
+				provider,
+			};
 		} catch (error) {
 			console.error("[RandomPicker] API call failed:", error);
 			throw error;
 		}
 	}
 
-	private weightedRandomSelection(shows: NetflixShow[]): NetflixShow {
-		// Weight shows by rating (higher rating = higher chance)
-		const weights = shows.map((show) => {
-			const rating = show.rating || 50;
-			const normalizedRating = Math.max(rating, 30); // Minimum weight
-			return normalizedRating;
-		});
+	/**
+	 * Ask each provider in turn, moving on only when the previous one is down or out of quota
+	 */
+	private async getCandidates(query: CatalogQuery): Promise<CandidateLookup> {
+		const providers = catalogProviders.filter((provider) =>
+			provider.supports(query)
+		);
+		let lastError: unknown;
+
+		for (const provider of providers) {
+			try {
+				const lookup = await provider.getShows(query);
+				return { ...lookup, provider: provider.name };
+			} catch (error) {
+				if (!isFailoverError(error)) {
+					throw error;
+				}
 
-		const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
-		const random = Math.random() * totalWeight;
+				console.warn(
+					`[RandomPicker] ${provider.name} unavailable, trying next provider:`,
+					error instanceof Error ? error.message : error
+				);
+				lastError = error;
+			}
+		}
 
-		let currentWeight = 0;
-		for (let i = 0; i < shows.length; i++) {
-			currentWeight += weights[i];
-			if (random <= currentWeight) {
-				return shows[i];
+		throw lastError ?? new Error("No catalog provider supports this query");
+	}
+
+	/**
+	 * Shows from the change feed. Only Streaming Availability has one, so there is no
+	 * provider to fail over to: an outage without a cached feed is a 503.
+	 */
+	private async getChangedCandidates(
+		query: CatalogQuery,
+		changeType: ChangeType
+	): Promise<CandidateLookup> {
+		try {
+			const lookup = await catalogCache.getChangedShows(query, changeType);
+			return { ...lookup, provider: "streaming-availability" };
+		} catch (error) {
+			if (!isFailoverError(error)) {
+				throw error;
 			}
+
+			throw new APIError(
+				"Leaving-soon and new-arrival picks are unavailable while the catalog API is down, try mode=random",
+				503,
+				error instanceof Error ? error.message : error
+			);
 		}
+	}
 
-		// Fallback to last show
-		return shows[shows.length - 1];
+	/**
+	 * Whether the show has what the card needs and streams on one of the services
+	 */
+	private isPresentable(show: NetflixShow, services: string[]): boolean {
+		return (
+			!!show.title &&
+			!!show.overview &&
+			show.watchLinks.some((link) => services.includes(link.serviceId)) &&
+			!!show.imageSet?.verticalPoster?.w480 &&
+			show.rating > 0
+		);
+	}
+
+	/**
+	 * Whether one of the services has announced the show leaves within the window
+	 */
+	private leavesWithin(
+		show: NetflixShow,
+		services: string[],
+		withinDays: number
+	): boolean {
+		const now = Date.now();
+		const windowEnd = now + withinDays * DAY_MS;
+
+		return show.watchLinks.some(
+			(link) =>
+				services.includes(link.serviceId) &&
+				link.expiresOn !== undefined &&
+				link.expiresOn * 1000 > now &&
+				link.expiresOn * 1000 <= windowEnd
+		);
+	}
+
+	/**
+	 * Whether the show was added to one of the services within the lookback
+	 */
+	private arrivedWithin(
+		show: NetflixShow,
+		services: string[],
+		sinceDays: number
+	): boolean {
+		const windowStart = Date.now() - sinceDays * DAY_MS;
+
+		return show.watchLinks.some(
+			(link) =>
+				services.includes(link.serviceId) &&
+				link.availableSince !== undefined &&
+				link.availableSince * 1000 >= windowStart
+		);
+	}
+
+	/**
+	 * Whether one of the services streams the show with the audio and subtitles.
+	 * Without a subtitle language, closedCaptions asks for any closed-caption track.
+	 */
+	private hasLanguages(
+		show: NetflixShow,
+		services: string[],
+		audio?: string,
+		subtitle?: string,
+		closedCaptions = false
+	): boolean {
+		return show.watchLinks.some(
+			(link) =>
+				services.includes(link.serviceId) &&
+				(!audio ||
+					(link.audios || []).some(
+						(locale) => locale.language.toLowerCase() === audio
+					)) &&
+				(!(subtitle || closedCaptions) ||
+					(link.subtitles || []).some(
+						(track) =>
+							(!subtitle ||
+								track.locale.language.toLowerCase() === subtitle) &&
+							(!closedCaptions || track.closedCaptions)
+					))
+		);
 	}
 
-	private trackUserPick(userId: string, show: NetflixShow): void {
-		if (!this.recentPicks.has(userId)) {
-			this.recentPicks.set(userId, []);
+	/**
+	 * Whether one of the services streams the show at the minimum quality or better
+	 */
+	private meetsQuality(
+		show: NetflixShow,
+		services: string[],
+		minQuality: VideoQuality
+	): boolean {
+		const minRank = VIDEO_QUALITIES.indexOf(minQuality);
+
+		return show.watchLinks.some(
+			(link) =>
+				services.includes(link.serviceId) &&
+				link.quality !== undefined &&
+				VIDEO_QUALITIES.indexOf(link.quality) >= minRank
+		);
+	}
+
+	/**
+	 * Make titles in genres the user keeps dismissing less likely, without ruling them out
+	 */
+	private downWeightDislikedGenres(
+		shows: NetflixShow[],
+		weights: number[],
+		dismissed: DismissedEntry[]
+	): number[] {
+		const counts = new Map<string, number>();
+		for (const entry of dismissed) {
+			for (const genre of entry.genres) {
+				counts.set(genre, (counts.get(genre) || 0) + 1);
+			}
 		}
 
-		const userPicks = this.recentPicks.get(userId)!;
-		userPicks.unshift(show); // Add to beginning
+		const disliked = new Set(
+			Array.from(counts.entries())
+				.filter(([, count]) => count >= DISLIKED_GENRE_MIN_DISMISSALS)
+				.map(([genre]) => genre)
+		);
 
-		// Keep only recent picks
-		if (userPicks.length > this.maxRecentPicks) {
-			userPicks.splice(this.maxRecentPicks);
+		if (disliked.size === 0) {
+			return weights;
 		}
 
-		// Clean old users
-		this.cleanupOldPicks();
+		return shows.map((show, i) => {
+			const matches = show.genres.filter((genre) =>
+				disliked.has(genre.id)
+			).length;
+			return weights[i] * DISLIKED_GENRE_WEIGHT ** Math.min(matches, 3);
+		});
+	}
+
+	private getEmptyMessage(config: RandomPickerConfig): string {
+		const content = config.showType || "content";
+
+		switch (config.mode) {
+			case "leaving-soon":
+				return `No ${content} leaving ${config.country} in the next ${
+					config.withinDays || DEFAULT_LEAVING_DAYS
+				} days`;
+			case "new-arrivals":
+				return `No ${content} added in ${config.country} in the last ${
+					config.sinceDays || DEFAULT_ARRIVAL_DAYS
+				} days`;
+			default:
+				return `No Netflix ${content} found for ${config.country}`;
+		}
 	}
 
-	private getUserRecentPicks(userId: string): NetflixShow[] {
-		return this.recentPicks.get(userId) || [];
+	/**
+	 * Weighted draws without replacement. Each draw prefers a primary genre
+	 * not picked yet, and only repeats one when no other genre is left.
+	 */
+	private pickDistinct(
+		shows: NetflixShow[],
+		weights: number[],
+		count: number,
+		random: RandomSource
+	): NetflixShow[] {
+		const remaining = shows.map((show, i) => ({ show, weight: weights[i] }));
+		const usedGenres = new Set<string>();
+		const picks: NetflixShow[] = [];
+		// Shows without genres count as a genre of their own
+		const primaryGenre = (show: NetflixShow) => show.genres[0]?.id ?? show.id;
+
+		while (picks.length < count && remaining.length > 0) {
+			const fresh = remaining.filter(
+				(candidate) => !usedGenres.has(primaryGenre(candidate.show))
+			);
+			const pool = fresh.length > 0 ? fresh : remaining;
+			const pick = this.weightedRandomSelection(
+				pool.map((candidate) => candidate.show),
+				pool.map((candidate) => candidate.weight),
+				random
+			);
+
+			picks.push(pick);
+			usedGenres.add(primaryGenre(pick));
+			remaining.splice(
+				remaining.findIndex((candidate) => candidate.show === pick),
+				1
+			);
+		}
+
+		return picks;
 	}
 
-	private cleanupOldPicks(): void {
-		// Simple cleanup - keep only most recent 100 users
-		if (this.recentPicks.size > 100) {
-			const entries = Array.from(this.recentPicks.entries());
-			entries.splice(50); // Keep only first 50
-			this.recentPicks.clear();
-			entries.forEach(([userId, picks]) => {
-				this.recentPicks.set(userId, picks);
-			});
+	private weightedRandomSelection(
+		shows: NetflixShow[],
+		weights: number[],
+		random: RandomSource
+	): NetflixShow {
+		const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+		const target = random() * totalWeight;
+
+		let currentWeight = 0;
+		for (let i = 0; i < shows.length; i++) {
+			currentWeight += weights[i];
+			if (target <= currentWeight) {
+				return shows[i];
+			}
 		}
+
+		// Fallback to last show
+		return shows[shows.length - 1];
 	}
 
 	private buildResponse(
-		show: NetflixShow,
+		selection: ShowSelection,
 		country: SupportedCountry,
-		fromCache: boolean,
+		seed: string,
 		startTime: number
 	): DiscoverResponse {
 		const responseTime = Date.now() - startTime;
 
 		// Update stats
 		this.stats.totalPicks++;
+		if (selection.provider !== catalogProviders[0].name) {
+			this.stats.fallbackPicks++;
+		}
 		this.stats.lastPickTimestamp = Date.now();
 		this.stats.averageResponseTime =
 			(this.stats.averageResponseTime * (this.stats.totalPicks - 1) +
@@ -240,9 +696,13 @@ export class RandomPickerService {
 			this.stats.totalPicks;
 
 		return {
-			show,
+			show: selection.shows[0],
+			shows: selection.shows,
 			country,
-			fromCache,
+			fromCache: selection.fromCache,
+			provider: selection.provider,
+			seed,
+			strategy: selection.strategy,
 			responseTime,
 		};
 	}
@@ -251,25 +711,7 @@ export class RandomPickerService {
 	 * Get show quality score for debugging
 	 */
 	getShowQualityScore(show: NetflixShow): number {
-		let score = 0;
-
-		// Basic data quality
-		if (show.title) score += 10;
-		if (show.overview && show.overview.length > 20) score += 10;
-		if (show.netflixLink) score += 20;
-		if (show.imageSet?.verticalPoster?.w480) score += 10;
-
-		// Content quality
-		if (show.rating > 70) score += 20;
-		else if (show.rating > 50) score += 10;
-
-		// Additional metadata
-		if (show.genres && show.genres.length > 0) score += 5;
-		if (show.cast && show.cast.length > 0) score += 5;
-		if (show.directors && show.directors.length > 0) score += 5;
-		if (show.creators && show.creators.length > 0) score += 5;
-
-		return score;
+		return getShowQualityScore(show);
 	}
 }
 
@@ -0,0 +1,239 @@
+// NetPick - Rooms
+// Group movie nights: a host opens a room, friends join with its code, and one pick suits them all
+
+import { randomInt } from "crypto";
+import { GroupMemberPreferences, RoomError } from "@/lib/types/netflix";
+import { randomPickerService } from "./randomPicker";
+import { roomStore, Room, RoomParticipant } from "./roomStore";
+import { tournamentService } from "./tournamentService";
+
+// No look-alikes (0/O, 1/I/L), so a code read aloud is typed right
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+export const ROOM_CODE_PATTERN = /^[A-HJKMNP-Z2-9]{6}$/;
+
+export const MAX_PARTICIPANTS = parseInt(
+	process.env.ROOM_MAX_PARTICIPANTS || "12"
+);
+export const MAX_NAME_LENGTH = 30;
+// Rooms are kept in memory by default, so their number is capped
+export const MAX_ROOMS = parseInt(process.env.ROOM_MAX_OPEN || "500");
+// Requests per client and window across all room routes; also slows down guessing codes
+export const ROOM_RATE_LIMIT = parseInt(process.env.ROOM_RATE_LIMIT || "60");
+
+export class RoomService {
+	/**
+	 * Open a room with the host as its first participant
+	 */
+	async createRoom(
+		hostId: string,
+		hostName: string,
+		country: string,
+		services: string[]
+	): Promise<Room> {
+		const { rooms } = await roomStore.getStats();
+		if (rooms >= MAX_ROOMS) {
+			throw new RoomError("Too many open rooms, try again later", 503);
+		}
+
+		const now = Date.now();
+		const room: Room = {
+			code: await this.createCode(),
+			hostId,
+			country,
+			services,
+			participants: [this.createParticipant(hostId, hostName)],
+			createdAt: now,
+			updatedAt: now,
+		};
+
+		await roomStore.save(room);
+		console.log(`[Rooms] Opened room ${room.code} in ${country}`);
+
+		return room;
+	}
+
+	async getRoom(code: string): Promise<Room> {
+		const room = await roomStore.get(code);
+
+		if (!room) {
+			throw new RoomError("Room not found", 404);
+		}
+
+		return room;
+	}
+
+	/**
+	 * Join a room, or rename yourself when already in it
+	 */
+	async join(code: string, userId: string, name: string): Promise<Room> {
+		const room = await this.getRoom(code);
+		const participant = this.findParticipant(room, userId);
+
+		if (participant) {
+			participant.name = name;
+		} else if (room.participants.length >= MAX_PARTICIPANTS) {
+			throw new RoomError(
+				`Room is full (${MAX_PARTICIPANTS} participants)`,
+				409
+			);
+		} else {
+			room.participants.push(this.createParticipant(userId, name));
+		}
+
+		await roomStore.save(room);
+		return room;
+	}
+
+	/**
+	 * The session's participant entry, or a 403 when it has not joined
+	 */
+	requireParticipant(room: Room, userId: string): RoomParticipant {
+		const participant = this.findParticipant(room, userId);
+
+		if (!participant) {
+			throw new RoomError("Join the room first", 403);
+		}
+
+		return participant;
+	}
+
+	/**
+	 * A 403 unless the session hosts the room
+	 */
+	requireHost(room: Room, userId: string, action: string): void {
+		if (room.hostId !== userId) {
+			throw new RoomError(`Only the host can ${action}`, 403);
+		}
+	}
+
+	async updatePreferences(
+		code: string,
+		userId: string,
+		preferences: GroupMemberPreferences
+	): Promise<Room> {
+		const room = await this.getRoom(code);
+		const participant = this.requireParticipant(room, userId);
+
+		participant.preferences = preferences;
+
+		await roomStore.save(room);
+		return room;
+	}
+
+	/**
+	 * Leave a room. The room closes when its host leaves; returns null then.
+	 */
+	async leave(code: string, userId: string): Promise<Room | null> {
+		const room = await this.getRoom(code);
+		this.requireParticipant(room, userId);
+
+		if (room.hostId === userId) {
+			await roomStore.delete(code);
+			console.log(`[Rooms] Closed room ${code}`);
+			return null;
+		}
+
+		room.participants = room.participants.filter(
+			(participant) => participant.userId !== userId
+		);
+
+		// The leaver may have been the last one the round was waiting on
+		const { tournament } = room;
+		if (tournament && !tournament.finishedAt) {
+			delete tournament.votes[userId];
+
+			if (tournamentService.isRoundComplete(room, tournament)) {
+				tournamentService.closeRound(room, tournament);
+			}
+		}
+
+		await roomStore.save(room);
+		return room;
+	}
+
+	/**
+	 * Close a room for everyone, host only
+	 */
+	async close(code: string, userId: string): Promise<void> {
+		const room = await this.getRoom(code);
+		this.requireHost(room, userId, "close the room");
+
+		await roomStore.delete(code);
+		console.log(`[Rooms] Closed room ${code}`);
+	}
+
+	/**
+	 * Pick for everyone in the room, host only. Picking again replaces the result
+	 * and ends a running tournament.
+	 */
+	async pick(code: string, userId: string): Promise<Room> {
+		const room = await this.getRoom(code);
+		this.requireHost(room, userId, "pick");
+
+		const result = await randomPickerService.discoverForGroup({
+			country: room.country,
+			services: room.services,
+			members: room.participants.map((participant) => participant.preferences),
+		});
+
+		room.result = {
+			show: result.show,
+			compromise: result.compromise,
+			satisfiedMembers: result.satisfiedMembers,
+			participantCount: room.participants.length,
+			groupScore: result.groupScore,
+			seed: result.seed,
+			strategy: result.strategy,
+			pickedAt: Date.now(),
+		};
+		delete room.tournament;
+
+		await roomStore.save(room);
+		console.log(
+			`[Rooms] Room ${code} picked ${result.show.title} (${result.satisfiedMembers}/${room.participants.length} satisfied)`
+		);
+
+		return room;
+	}
+
+	// Private methods
+
+	private async createCode(): Promise<string> {
+		// 31^6 codes, so a clash with a live room is rare; retry a few times anyway
+		for (let attempt = 0; attempt < 5; attempt++) {
+			const code = Array.from(
+				{ length: CODE_LENGTH },
+				() => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+			).join("");
+
+			if (!(await roomStore.get(code))) {
+				return code;
+			}
+		}
+
+		throw new RoomError("Could not allocate a room code", 503);
+	}
+
+	private createParticipant(userId: string, name: string): RoomParticipant {
+		return {
+			id: randomInt(2 ** 32).toString(36),
+			userId,
+			name,
+			joinedAt: Date.now(),
+			preferences: {},
+		};
+	}
+
+	private findParticipant(
+		room: Room,
+		userId: string
+	): RoomParticipant | undefined {
+		return room.participants.find(
+			(participant) => participant.userId === userId
+		);
+	}
+}
+
+// Singleton instance
+export const roomService = new RoomService();
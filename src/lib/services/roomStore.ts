@@ -0,0 +1,205 @@
+// NetPick - Room Store
+// Movie-night rooms, in memory or persisted to a JSON file
+
+import path from "path";
+import {
+	NetflixShow,
+	GroupMemberPreferences,
+	SelectionStrategyName,
+} from "@/lib/types/netflix";
+import { JsonFileStore } from "@/lib/utils/jsonFile";
+
+export interface RoomParticipant {
+	id: string; // Public id, the session's user id never leaves the server
+	userId: string;
+	name: string;
+	joinedAt: number;
+	preferences: GroupMemberPreferences;
+}
+
+export interface RoomResult {
+	show: NetflixShow;
+	compromise: boolean;
+	satisfiedMembers: number;
+	participantCount: number; // Participants when the pick was made
+	groupScore: number;
+	seed: string;
+	strategy: SelectionStrategyName;
+	pickedAt: number;
+}
+
+export type TournamentVote = "keep" | "skip";
+
+export interface TournamentTally {
+	showId: string;
+	title: string;
+	keeps: number;
+	skips: number;
+	advanced: boolean;
+}
+
+export interface TournamentRound {
+	round: number;
+	tallies: TournamentTally[]; // Ranked, tie-breaks applied
+}
+
+export interface Tournament {
+	round: number; // 1-based, the round being voted on
+	candidates: NetflixShow[]; // Still in the running
+	votes: Record<string, Record<string, TournamentVote>>; // userId -> showId -> vote, this round
+	rounds: TournamentRound[]; // Finished rounds, oldest first
+	seed: string; // Drew the candidates and drives the last tie-break
+	strategy: SelectionStrategyName;
+	startedAt: number;
+	finishedAt?: number; // Set once one candidate is left, it becomes the room result
+}
+
+export interface Room {
+	code: string;
+	hostId: string; // User id of the participant who can pick and close the room
+	country: string;
+	services: string[];
+	participants: RoomParticipant[]; // In join order, host first
+	result?: RoomResult;
+	tournament?: Tournament;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export interface RoomStore {
+	readonly name: "memory" | "file";
+	/**
+	 * Null when the room does not exist or has expired
+	 */
+	get(code: string): Promise<Room | null>;
+	save(room: Room): Promise<void>;
+	delete(code: string): Promise<boolean>;
+	getStats(): Promise<RoomStoreStats>;
+}
+
+export interface RoomStoreStats {
+	store: RoomStore["name"];
+	rooms: number;
+	participants: number;
+}
+
+type RoomData = Record<string, Room>;
+
+// Rooms nobody touched for this long are dropped
+const ROOM_TTL_MS =
+	parseInt(process.env.ROOM_TTL_HOURS || "12") * 60 * 60 * 1000;
+
+export class MemoryRoomStore implements RoomStore {
+	readonly name: RoomStore["name"] = "memory";
+
+	protected data: RoomData = {};
+
+	async get(code: string): Promise<Room | null> {
+		await this.load();
+
+		if (this.prune()) {
+			await this.persist();
+		}
+
+		return this.data[code] || null;
+	}
+
+	async save(room: Room): Promise<void> {
+		await this.load();
+
+		room.updatedAt = Date.now();
+		this.data[room.code] = room;
+		this.prune();
+
+		await this.persist();
+	}
+
+	async delete(code: string): Promise<boolean> {
+		await this.load();
+
+		if (!this.data[code]) {
+			return false;
+		}
+
+		delete this.data[code];
+		await this.persist();
+		return true;
+	}
+
+	async getStats(): Promise<RoomStoreStats> {
+		await this.load();
+		this.prune();
+
+		const rooms = Object.values(this.data);
+
+		return {
+			store: this.name,
+			rooms: rooms.length,
+			participants: rooms.reduce(
+				(total, room) => total + room.participants.length,
+				0
+			),
+		};
+	}
+
+	// Persistence hooks, no-ops in memory
+
+	protected async load(): Promise<void> {}
+
+	protected async persist(): Promise<void> {}
+
+	/**
+	 * Drop expired rooms, returns whether any were dropped
+	 */
+	protected prune(): boolean {
+		const cutoff = Date.now() - ROOM_TTL_MS;
+		let pruned = false;
+
+		for (const [code, room] of Object.entries(this.data)) {
+			if (room.updatedAt < cutoff) {
+				delete this.data[code];
+				pruned = true;
+			}
+		}
+
+		return pruned;
+	}
+}
+
+/**
+ * Rooms written through to a JSON file so they survive restarts
+ */
+export class FileRoomStore extends MemoryRoomStore {
+	readonly name: RoomStore["name"] = "file";
+
+	private readonly file: JsonFileStore<RoomData>;
+
+	constructor(filePath: string) {
+		super();
+		this.file = new JsonFileStore(filePath, "RoomStore");
+	}
+
+	protected load(): Promise<void> {
+		return this.file.load((data) => {
+			this.data = data;
+			this.prune();
+		});
+	}
+
+	protected persist(): Promise<void> {
+		return this.file.save(this.data);
+	}
+}
+
+function createRoomStore(): RoomStore {
+	if (process.env.ROOM_STORE === "file") {
+		return new FileRoomStore(
+			path.resolve(process.env.ROOM_FILE || ".netpick/rooms.json")
+		);
+	}
+
+	return new MemoryRoomStore();
+}
+
+// Singleton instance
+export const roomStore = createRoomStore();
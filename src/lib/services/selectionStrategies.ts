@@ -0,0 +1,120 @@
+// NetPick - Selection Strategies
+// How the picker weighs the candidates that passed the filters
+
+import { NetflixShow, SelectionStrategyName } from "@/lib/types/netflix";
+
+export interface SelectionStrategy {
+	readonly name: SelectionStrategyName;
+	/**
+	 * Relative chance of each candidate being picked, all greater than zero
+	 */
+	weigh(shows: NetflixShow[]): number[];
+}
+
+// Below this, a rating says more about missing votes than about the show
+const MIN_RATING_WEIGHT = 30;
+// Gems must beat this rating to stand out
+const GEM_RATING_FLOOR = 60;
+
+/**
+ * Data completeness plus rating, 0-100
+ */
+export function getShowQualityScore(show: NetflixShow): number {
+	let score = 0;
+
+	// Basic data quality
+	if (show.title) score += 10;
+	if (show.overview && show.overview.length > 20) score += 10;
+	if (show.watchLinks.length > 0) score += 20;
+	if (show.imageSet?.verticalPoster?.w480) score += 10;
+
+	// Content quality
+	if (show.rating > 70) score += 20;
+	else if (show.rating > 50) score += 10;
+
+	// Additional metadata
+	if (show.genres && show.genres.length > 0) score += 5;
+	if (show.cast && show.cast.length > 0) score += 5;
+	if (show.directors && show.directors.length > 0) score += 5;
+	if (show.creators && show.creators.length > 0) score += 5;
+
+	return score;
+}
+
+/**
+ * Popularity ranks of the candidates, with unranked shows (from the change feed) put at the median
+ */
+function getRanks(shows: NetflixShow[]): number[] {
+	const known = shows
+		.map((show) => show.popularityRank)
+		.filter((rank): rank is number => rank !== undefined)
+		.sort((a, b) => a - b);
+	const median = known.length > 0 ? known[Math.floor(known.length / 2)] : 1;
+
+	return shows.map((show) => show.popularityRank ?? median);
+}
+
+export class UniformStrategy implements SelectionStrategy {
+	readonly name = "uniform" as const;
+
+	weigh(shows: NetflixShow[]): number[] {
+		return shows.map(() => 1);
+	}
+}
+
+export class RatingStrategy implements SelectionStrategy {
+	readonly name = "rating" as const;
+
+	weigh(shows: NetflixShow[]): number[] {
+		// Higher rating = higher chance, unrated shows count as average
+		return shows.map((show) => Math.max(show.rating || 50, MIN_RATING_WEIGHT));
+	}
+}
+
+export class PopularityStrategy implements SelectionStrategy {
+	readonly name = "popularity" as const;
+
+	weigh(shows: NetflixShow[]): number[] {
+		// Square root keeps the long tail in play: rank 100 is a tenth as likely as rank 1
+		return getRanks(shows).map((rank) => 1 / Math.sqrt(rank));
+	}
+}
+
+export class QualityStrategy implements SelectionStrategy {
+	readonly name = "quality" as const;
+
+	weigh(shows: NetflixShow[]): number[] {
+		return shows.map((show) => Math.max(getShowQualityScore(show), 1));
+	}
+}
+
+export class GemsStrategy implements SelectionStrategy {
+	readonly name = "gems" as const;
+
+	/**
+	 * Well rated but far down the popularity list
+	 */
+	weigh(shows: NetflixShow[]): number[] {
+		const ranks = getRanks(shows);
+		const maxRank = Math.max(...ranks, 1);
+
+		return shows.map((show, i) => {
+			const acclaim = Math.max((show.rating || 0) - GEM_RATING_FLOOR, 1);
+			const obscurity = Math.max(ranks[i] / maxRank, 0.05);
+			return acclaim * obscurity;
+		});
+	}
+}
+
+export const DEFAULT_STRATEGY: SelectionStrategyName = "rating";
+
+export const selectionStrategies: Record<
+	SelectionStrategyName,
+	SelectionStrategy
+> = {
+	uniform: new UniformStrategy(),
+	rating: new RatingStrategy(),
+	popularity: new PopularityStrategy(),
+	quality: new QualityStrategy(),
+	gems: new GemsStrategy(),
+};
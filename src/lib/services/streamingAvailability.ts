@@ -8,18 +8,31 @@ import {
 	APIError,
 	StreamingOption,
 	ShowImageSet,
+	CatalogFilters,
+	ServiceLink,
+	ServiceInfo,
+	StreamingOptionsMap,
+	Genre,
+	ChangeType,
+	ShowChange,
+	SeriesGranularity,
 } from "@/lib/types/netflix";
+import { HttpClient, CircuitStats } from "./httpClient";
+import { usageTracker } from "./usageTracker";
 
-export interface SearchFiltersParams {
+export interface SearchFiltersParams extends CatalogFilters {
 	country: SupportedCountry;
-	catalogs?: string; // Default: 'netflix'
+	catalogs?: string[]; // Default: ['netflix']
 	showType?: "movie" | "series";
 	orderBy?: "original_title" | "popularity_1year" | "rating" | "release_date";
 	orderDirection?: "asc" | "desc";
 	cursor?: string;
 	limit?: number;
+	seriesGranularity?: SeriesGranularity; // Default: show
 }
 
+export type { SeriesGranularity };
+
 export interface ApiShow {
 	id: string;
 	tmdbId?: string;
@@ -32,21 +45,58 @@ export interface ApiShow {
 	firstAirYear?: number;
 	lastAirYear?: number;
 	rating?: number;
-	genres?: string[];
+	genres?: Genre[];
 	runtime?: number;
 	seasonCount?: number;
 	episodeCount?: number;
 	imageSet?: ShowImageSet;
-	streamingOptions?: Partial<Record<SupportedCountry, StreamingOption[]>>;
+	streamingOptions?: StreamingOptionsMap;
 	directors?: string[];
 	creators?: string[];
 	cast?: string[];
+	seasons?: ApiSeason[]; // Season and episode granularity only
+}
+
+interface ApiSeason {
+	title?: string;
+	episodes?: Array<{ title?: string; runtime?: number }>; // Episode granularity only
+}
+
+export interface ChangesParams {
+	country: SupportedCountry;
+	changeType: ChangeType;
+	catalogs?: string[]; // Default: ['netflix']
+	itemType?: "show" | "season" | "episode"; // Default: show
+	showType?: "movie" | "series";
+	from?: number; // Unix seconds
+	to?: number; // Unix seconds
+	includeUnknownDates?: boolean;
+	orderDirection?: "asc" | "desc"; // Default: asc (oldest first)
+	cursor?: string;
+}
+
+export interface ChangesPage {
+	changes: ShowChange[];
+	shows: Record<string, NetflixShow>; // Shows affected by the changes, by id
+	hasMore: boolean;
+	nextCursor?: string;
+}
+
+interface ApiChange extends Omit<ShowChange, "serviceId"> {
+	service: ServiceInfo;
+}
+
+export interface ApiCountry {
+	countryCode: string;
+	name: string;
+	services: ServiceInfo[];
 }
 
 export class StreamingAvailabilityService {
 	private readonly apiKey: string;
 	private readonly baseUrl: string;
 	private readonly defaultHeaders: Record<string, string>;
+	private readonly http = new HttpClient({ name: "Streaming Availability" });
 
 	constructor() {
 		this.apiKey = process.env.STREAMING_AVAILABILITY_API_KEY || "";
@@ -74,57 +124,256 @@ export class StreamingAvailabilityService {
 		try {
 			const searchParams = new URLSearchParams({
 				country: params.country,
-				catalogs: params.catalogs || "netflix",
+				catalogs: (params.catalogs?.length
+					? params.catalogs
+					: ["netflix"]
+				).join(","),
 				...(params.showType && { show_type: params.showType }),
+				...(params.genres?.length && { genres: params.genres.join(",") }),
+				...(params.genresRelation && {
+					genres_relation: params.genresRelation,
+				}),
+				...(params.originalLanguage && {
+					show_original_language: params.originalLanguage,
+				}),
+				...(params.yearMin !== undefined && {
+					year_min: String(params.yearMin),
+				}),
+				...(params.yearMax !== undefined && {
+					year_max: String(params.yearMax),
+				}),
+				...(params.ratingMin !== undefined && {
+					rating_min: String(params.ratingMin),
+				}),
+				...(params.ratingMax !== undefined && {
+					rating_max: String(params.ratingMax),
+				}),
+				...(params.keyword && { keyword: params.keyword }),
 				...(params.orderBy && { order_by: params.orderBy }),
 				...(params.orderDirection && {
 					order_direction: params.orderDirection,
 				}),
 				...(params.cursor && { cursor: params.cursor }),
-				series_granularity: "show", // Don't need season/episode details for MVP
+				// Episode details are only worth their payload when runtimes matter
+				series_granularity: params.seriesGranularity || "show",
 				output_language: "en",
 			});
 
-			const url = `${
-				this.baseUrl
-			}/shows/search/filters?${searchParams.toString()}`;
+			const data = await this.request<{
+				shows: ApiShow[];
+				hasMore?: boolean;
+				nextCursor?: string;
+			}>("/shows/search/filters", searchParams);
+
+			// Transform API response to our Netflix show format
+			const shows: NetflixShow[] = data.shows.map((show) =>
+				this.transformShow(show, params.country)
+			);
+
+			return {
+				shows,
+				hasMore: data.hasMore || false,
+				nextCursor: data.nextCursor,
+			};
+		} catch (error) {
+			console.error("[StreamingAvailability] Search error:", error);
 
-			console.log(`[StreamingAvailability] Fetching: ${url}`);
+			if (error instanceof APIError) {
+				throw error;
+			}
+
+			throw new APIError(
+				"Failed to fetch Netflix shows",
+				500,
+				error instanceof Error ? error.message : "Unknown error"
+			);
+		}
+	}
 
-			const response = await fetch(url, {
-				method: "GET",
-				headers: this.defaultHeaders,
+	/**
+	 * Get a single show by id, IMDb id (tt...) or TMDB id (movie/... or tv/...)
+	 * Returns null when the API does not know the id
+	 */
+	async getShow(
+		id: string,
+		country: SupportedCountry,
+		options: { seriesGranularity?: SeriesGranularity } = {}
+	): Promise<NetflixShow | null> {
+		try {
+			const searchParams = new URLSearchParams({
+				country,
+				series_granularity: options.seriesGranularity || "show",
+				output_language: "en",
 			});
 
-			if (!response.ok) {
-				throw new APIError(
-					`Streaming Availability API error: ${response.status}`,
-					response.status,
-					await response.text()
-				);
+			const data = await this.request<ApiShow>(
+				// TMDB ids keep their slash (movie/155), only the segments are escaped
+				`/shows/${id.split("/").map(encodeURIComponent).join("/")}`,
+				searchParams
+			);
+
+			return this.transformShow(data, country);
+		} catch (error) {
+			if (error instanceof APIError && error.statusCode === 404) {
+				return null;
 			}
 
-			const data = await response.json();
+			console.error("[StreamingAvailability] Get show error:", error);
 
-			// Transform API response to our Netflix show format
-			const shows: NetflixShow[] = data.shows.map((show: ApiShow) =>
-				this.transformShow(show, params.country)
+			if (error instanceof APIError) {
+				throw error;
+			}
+
+			throw new APIError(
+				"Failed to fetch Netflix show",
+				500,
+				error instanceof Error ? error.message : "Unknown error"
+			);
+		}
+	}
+
+	/**
+	 * Search shows by title - results may include shows not streamable in the country
+	 */
+	async searchByTitle(
+		title: string,
+		country: SupportedCountry,
+		showType?: "movie" | "series"
+	): Promise<NetflixShow[]> {
+		try {
+			const searchParams = new URLSearchParams({
+				title,
+				country,
+				...(showType && { show_type: showType }),
+				series_granularity: "show",
+				output_language: "en",
+			});
+
+			const data = await this.request<ApiShow[]>(
+				"/shows/search/title",
+				searchParams
+			);
+
+			return data.map((show) => this.transformShow(show, country));
+		} catch (error) {
+			console.error("[StreamingAvailability] Title search error:", error);
+
+			if (error instanceof APIError) {
+				throw error;
+			}
+
+			throw new APIError(
+				"Failed to search Netflix shows",
+				500,
+				error instanceof Error ? error.message : "Unknown error"
+			);
+		}
+	}
+
+	/**
+	 * Get every supported country with its streaming services
+	 */
+	async getCountries(): Promise<ApiCountry[]> {
+		try {
+			const data = await this.request<Record<string, ApiCountry>>(
+				"/countries",
+				new URLSearchParams({ output_language: "en" })
+			);
+
+			return Object.values(data);
+		} catch (error) {
+			console.error("[StreamingAvailability] Countries error:", error);
+
+			if (error instanceof APIError) {
+				throw error;
+			}
+
+			throw new APIError(
+				"Failed to fetch countries",
+				500,
+				error instanceof Error ? error.message : "Unknown error"
+			);
+		}
+	}
+
+	/**
+	 * Get every genre the search filters accept
+	 */
+	async getGenres(): Promise<Genre[]> {
+		try {
+			return await this.request<Genre[]>(
+				"/genres",
+				new URLSearchParams({ output_language: "en" })
 			);
+		} catch (error) {
+			console.error("[StreamingAvailability] Genres error:", error);
+
+			if (error instanceof APIError) {
+				throw error;
+			}
+
+			throw new APIError(
+				"Failed to fetch genres",
+				500,
+				error instanceof Error ? error.message : "Unknown error"
+			);
+		}
+	}
+
+	/**
+	 * Get one page (25 items) of catalog changes, ordered by date
+	 */
+	async getChanges(params: ChangesParams): Promise<ChangesPage> {
+		try {
+			const searchParams = new URLSearchParams({
+				country: params.country,
+				catalogs: (params.catalogs?.length
+					? params.catalogs
+					: ["netflix"]
+				).join(","),
+				change_type: params.changeType,
+				item_type: params.itemType || "show",
+				...(params.showType && { show_type: params.showType }),
+				...(params.from !== undefined && { from: String(params.from) }),
+				...(params.to !== undefined && { to: String(params.to) }),
+				...(params.includeUnknownDates && {
+					include_unknown_dates: "true",
+				}),
+				...(params.cursor && { cursor: params.cursor }),
+				order_direction: params.orderDirection || "asc",
+				output_language: "en",
+			});
+
+			const data = await this.request<{
+				changes: ApiChange[];
+				shows: Record<string, ApiShow>;
+				hasMore?: boolean;
+				nextCursor?: string;
+			}>("/changes", searchParams);
+
+			const shows: Record<string, NetflixShow> = {};
+			for (const [id, show] of Object.entries(data.shows || {})) {
+				shows[id] = this.transformShow(show, params.country);
+			}
 
 			return {
+				changes: data.changes.map(({ service, ...change }) => ({
+					...change,
+					serviceId: service.id,
+				})),
 				shows,
 				hasMore: data.hasMore || false,
 				nextCursor: data.nextCursor,
 			};
 		} catch (error) {
-			console.error("[StreamingAvailability] Search error:", error);
+			console.error("[StreamingAvailability] Changes error:", error);
 
 			if (error instanceof APIError) {
 				throw error;
 			}
 
 			throw new APIError(
-				"Failed to fetch Netflix shows",
+				"Failed to fetch catalog changes",
 				500,
 				error instanceof Error ? error.message : "Unknown error"
 			);
@@ -149,25 +398,41 @@ export class StreamingAvailabilityService {
 	}
 
 	/**
-	 * Get random page of Netflix shows
+	 * Circuit breaker state of the upstream connection
 	 */
-	async getRandomPage(
-		country: SupportedCountry,
-		showType?: "movie" | "series"
-	): Promise<NetflixShow[]> {
-		// Generate random cursor for pagination diversity
-		const randomPage = Math.floor(Math.random() * 50) + 1; // Pages 1-50
-		const randomCursor = this.generateRandomCursor(randomPage);
+	getCircuitStats(): CircuitStats {
+		return this.http.getStats();
+	}
 
-		const result = await this.searchShows({
-			country,
-			showType,
-			orderBy: "popularity_1year",
-			orderDirection: "desc",
-			cursor: randomCursor,
-		});
+	/**
+	 * GET an API path and parse the JSON body, throwing APIError on non-2xx
+	 * Every call is a read, so the client may retry it. Each attempt is billed,
+	 * so each one has to fit in the daily budget.
+	 */
+	private async request<T>(
+		path: string,
+		searchParams: URLSearchParams
+	): Promise<T> {
+		const url = `${this.baseUrl}${path}?${searchParams.toString()}`;
+		// Show ids vary per call, group them under one endpoint
+		const endpoint = /^\/shows\/(?!search\/)/.test(path) ? "/shows/{id}" : path;
 
-		return result.shows;
+		console.log(`[StreamingAvailability] Fetching: ${url}`);
+
+		return this.http.getJson<T>(url, this.defaultHeaders, {
+			onAttempt: () => {
+				// Refused like a 429 so callers fall back to stale pools or TMDB
+				if (!usageTracker.tryConsume()) {
+					throw new APIError(
+						"Streaming Availability daily request budget exhausted",
+						429,
+						usageTracker.getStats().budget
+					);
+				}
+			},
+			onResponse: (response) =>
+				usageTracker.record(endpoint, searchParams.get("country"), response),
+		});
 	}
 
 	/**
@@ -195,15 +460,19 @@ export class StreamingAvailabilityService {
 			lastAirYear: apiShow.lastAirYear,
 			rating: apiShow.rating || 0,
 			genres: (apiShow.genres || []).map((genre) => ({
-				id: genre,
-				name: genre,
+				id: genre.id,
+				name: genre.name,
 			})),
 			runtime: apiShow.runtime,
 			seasonCount: apiShow.seasonCount,
 			episodeCount: apiShow.episodeCount,
+			episodeRuntime: this.getEpisodeRuntime(apiShow),
 			imageSet: apiShow.imageSet || this.getDefaultImages(),
 			streamingOptions: apiShow.streamingOptions || {},
 			netflixLink: netflixOption?.link,
+			watchLinks: this.buildWatchLinks(
+				apiShow.streamingOptions?.[country] || []
+			),
 			directors: apiShow.directors || [],
 			creators: apiShow.creators || [],
 			cast: apiShow.cast || [],
@@ -211,11 +480,57 @@ export class StreamingAvailabilityService {
 	}
 
 	/**
-	 * Generate random cursor for pagination diversity
+	 * Average episode runtime, from episode-granularity responses that carry one
 	 */
-	private generateRandomCursor(page: number): string {
-		// Simple cursor generation - in real implementation this would be more sophisticated
-		return btoa(`page:${page}:${Date.now()}`);
+	private getEpisodeRuntime(apiShow: ApiShow): number | undefined {
+		const runtimes = (apiShow.seasons || [])
+			.flatMap((season) => season.episodes || [])
+			.map((episode) => episode.runtime)
+			.filter((runtime): runtime is number => !!runtime && runtime > 0);
+
+		if (runtimes.length === 0) {
+			return undefined;
+		}
+
+		return Math.round(
+			runtimes.reduce((total, runtime) => total + runtime, 0) / runtimes.length
+		);
+	}
+
+	/**
+	 * Collapse a country's streaming options into one link per service,
+	 * keeping only ways to watch that need no extra purchase
+	 */
+	private buildWatchLinks(options: StreamingOption[]): ServiceLink[] {
+		const preference: StreamingOption["type"][] = [
+			"subscription",
+			"free",
+			"addon",
+		];
+		const links = new Map<string, StreamingOption>();
+
+		for (const option of options) {
+			const rank = preference.indexOf(option.type);
+			if (rank === -1) continue;
+
+			const current = links.get(option.service.id);
+			if (!current || rank < preference.indexOf(current.type)) {
+				links.set(option.service.id, option);
+			}
+		}
+
+		return Array.from(links.values()).map((option) => ({
+			serviceId: option.service.id,
+			serviceName: option.service.name,
+			type: option.type,
+			link: option.link,
+			quality: option.quality,
+			themeColorCode: option.service.themeColorCode,
+			expiresOn: option.expiresOn,
+			availableSince: option.availableSince,
+			audios: option.audios,
+			subtitles: option.subtitles,
+		}));
 	}
 
 	/**
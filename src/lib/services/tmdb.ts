@@ -0,0 +1,325 @@
+// NetPick - TMDB API Service
+// Fallback catalog source: TMDB /discover filtered to Netflix through its watch-provider data
+
+import {
+	NetflixShow,
+	SupportedCountry,
+	APIError,
+	CatalogFilters,
+	Genre,
+	FALLBACK_GENRES,
+	VerticalImage,
+	HorizontalImage,
+} from "@/lib/types/netflix";
+import { HttpClient, CircuitStats } from "./httpClient";
+
+export interface TmdbDiscoverParams extends CatalogFilters {
+	country: SupportedCountry;
+	showType: "movie" | "series";
+	page?: number;
+}
+
+export interface TmdbDiscoverResult {
+	shows: NetflixShow[];
+	page: number;
+	totalPages: number;
+}
+
+interface TmdbShow {
+	id: number;
+	title?: string; // Movies
+	name?: string; // Series
+	original_title?: string;
+	original_name?: string;
+	overview?: string;
+	release_date?: string;
+	first_air_date?: string;
+	vote_average?: number;
+	genre_ids?: number[];
+	poster_path?: string | null;
+	backdrop_path?: string | null;
+}
+
+interface TmdbDiscoverResponse {
+	page: number;
+	results: TmdbShow[];
+	total_pages: number;
+	total_results: number;
+}
+
+// TMDB's watch-provider id for Netflix
+const NETFLIX_PROVIDER_ID = 8;
+// TMDB refuses pages past 500
+const MAX_PAGE = 500;
+const PAGE_SIZE = 20;
+const IMAGE_BASE_URL = "https://image.tmdb.org/t/p";
+// TMDB is asked once the primary gave up, so it gets what is left of the function time
+const FALLBACK_RETRIES = 1;
+const FALLBACK_BUDGET_MS = 3000;
+
+// Our genre ids (from the Streaming Availability /genres list) to TMDB's movie and tv genre ids
+const GENRE_MAP: Record<string, { movie?: number; tv?: number }> = {
+	action: { movie: 28, tv: 10759 },
+	adventure: { movie: 12, tv: 10759 },
+	animation: { movie: 16, tv: 16 },
+	comedy: { movie: 35, tv: 35 },
+	crime: { movie: 80, tv: 80 },
+	documentary: { movie: 99, tv: 99 },
+	drama: { movie: 18, tv: 18 },
+	family: { movie: 10751, tv: 10751 },
+	fantasy: { movie: 14, tv: 10765 },
+	history: { movie: 36 },
+	horror: { movie: 27 },
+	music: { movie: 10402 },
+	mystery: { movie: 9648, tv: 9648 },
+	news: { tv: 10763 },
+	reality: { tv: 10764 },
+	romance: { movie: 10749 },
+	scifi: { movie: 878, tv: 10765 },
+	talk: { tv: 10767 },
+	thriller: { movie: 53 },
+	war: { movie: 10752, tv: 10768 },
+	western: { movie: 37, tv: 37 },
+};
+
+export class TmdbService {
+	private readonly apiKey: string;
+	private readonly baseUrl: string;
+	private readonly http = new HttpClient({
+		name: "TMDB",
+		maxRetries: FALLBACK_RETRIES,
+		budgetMs: FALLBACK_BUDGET_MS,
+	});
+
+	constructor() {
+		// Optional: without a key the fallback is simply unavailable
+		this.apiKey = process.env.TMDB_API_KEY || "";
+		this.baseUrl = process.env.TMDB_BASE_URL || "https://api.themoviedb.org/3";
+	}
+
+	/**
+	 * Whether a TMDB key is configured
+	 */
+	isConfigured(): boolean {
+		return !!this.apiKey;
+	}
+
+	/**
+	 * Circuit breaker state of the TMDB connection
+	 */
+	getCircuitStats(): CircuitStats {
+		return this.http.getStats();
+	}
+
+	/**
+	 * Discover shows streaming on Netflix in a country, most popular first
+	 */
+	async discoverShows(params: TmdbDiscoverParams): Promise<TmdbDiscoverResult> {
+		const mediaType = params.showType === "movie" ? "movie" : "tv";
+		const genreIds = this.toTmdbGenres(
+			params.genres,
+			params.genresRelation,
+			mediaType
+		);
+
+		if (genreIds === null) {
+			return { shows: [], page: 1, totalPages: 0 };
+		}
+
+		try {
+			const dateField =
+				mediaType === "movie" ? "primary_release_date" : "first_air_date";
+			const searchParams = new URLSearchParams({
+				watch_region: params.country.toUpperCase(),
+				with_watch_providers: String(NETFLIX_PROVIDER_ID),
+				with_watch_monetization_types: "flatrate",
+				sort_by: "popularity.desc",
+				page: String(Math.min(Math.max(params.page || 1, 1), MAX_PAGE)),
+				include_adult: "false",
+				language: "en-US",
+				...(genreIds.length > 0 && {
+					// TMDB: comma means AND, pipe means OR
+					with_genres: genreIds.join(
+						params.genresRelation === "or" ? "|" : ","
+					),
+				}),
+				...(params.originalLanguage && {
+					with_original_language: params.originalLanguage,
+				}),
+				...(params.yearMin !== undefined && {
+					[`${dateField}.gte`]: `${params.yearMin}-01-01`,
+				}),
+				...(params.yearMax !== undefined && {
+					[`${dateField}.lte`]: `${params.yearMax}-12-31`,
+				}),
+				...(params.ratingMin !== undefined && {
+					"vote_average.gte": String(params.ratingMin / 10),
+				}),
+				...(params.ratingMax !== undefined && {
+					"vote_average.lte": String(params.ratingMax / 10),
+				}),
+			});
+
+			const data = await this.request<TmdbDiscoverResponse>(
+				`/discover/${mediaType}`,
+				searchParams
+			);
+
+			return {
+				// Results are sorted by popularity, so their position is a rank
+				shows: data.results.map((show, position) => ({
+					...this.transformShow(show, params.showType),
+					popularityRank: (data.page - 1) * PAGE_SIZE + position + 1,
+				})),
+				page: data.page,
+				totalPages: Math.min(data.total_pages, MAX_PAGE),
+			};
+		} catch (error) {
+			console.error("[TMDB] Discover error:", error);
+
+			if (error instanceof APIError) {
+				throw error;
+			}
+
+			throw new APIError(
+				"Failed to fetch TMDB shows",
+				500,
+				error instanceof Error ? error.message : "Unknown error"
+			);
+		}
+	}
+
+	// Private methods
+
+	/**
+	 * GET an API path and parse the JSON body, throwing APIError on non-2xx.
+	 * Goes through the same timeouts, retries and circuit breaker as the primary.
+	 */
+	private async request<T>(
+		path: string,
+		searchParams: URLSearchParams
+	): Promise<T> {
+		// v4 read access tokens are JWTs and go in the header, v3 keys in the query
+		const isBearerToken = this.apiKey.split(".").length === 3;
+		if (!isBearerToken) {
+			searchParams.set("api_key", this.apiKey);
+		}
+
+		const url = `${this.baseUrl}${path}?${searchParams.toString()}`;
+
+		console.log(`[TMDB] Fetching: ${this.baseUrl}${path}`);
+
+		return this.http.getJson<T>(url, {
+			Accept: "application/json",
+			...(isBearerToken && { Authorization: `Bearer ${this.apiKey}` }),
+		});
+	}
+
+	/**
+	 * TMDB genre ids for our genre ids, or null when no show of this media type can match
+	 */
+	private toTmdbGenres(
+		genres: string[] | undefined,
+		relation: CatalogFilters["genresRelation"],
+		mediaType: "movie" | "tv"
+	): number[] | null {
+		if (!genres?.length) {
+			return [];
+		}
+
+		const ids = genres.map((genre) => GENRE_MAP[genre]?.[mediaType]);
+		const mapped = ids.filter((id): id is number => id !== undefined);
+
+		// Upstream defaults to AND, where one missing genre rules everything out
+		if (relation === "or" ? mapped.length === 0 : mapped.length < ids.length) {
+			return null;
+		}
+
+		return Array.from(new Set(mapped));
+	}
+
+	private fromTmdbGenres(ids: number[], mediaType: "movie" | "tv"): Genre[] {
+		return FALLBACK_GENRES.filter((genre) => {
+			const id = GENRE_MAP[genre.id]?.[mediaType];
+			return id !== undefined && ids.includes(id);
+		});
+	}
+
+	/**
+	 * Transform a TMDB discover result to our NetflixShow interface
+	 */
+	private transformShow(
+		tmdbShow: TmdbShow,
+		showType: "movie" | "series"
+	): NetflixShow {
+		const mediaType = showType === "movie" ? "movie" : "tv";
+		const title = tmdbShow.title || tmdbShow.name || "";
+		const date = tmdbShow.release_date || tmdbShow.first_air_date;
+		const year = date ? parseInt(date.slice(0, 4)) || undefined : undefined;
+		// TMDB only says the show is on Netflix, not where, so link to a Netflix search
+		const netflixLink = `https://www.netflix.com/search?q=${encodeURIComponent(
+			title
+		)}`;
+
+		return {
+			// Same form the Streaming Availability API accepts as a show id
+			id: `${mediaType}/${tmdbShow.id}`,
+			tmdbId: `${mediaType}/${tmdbShow.id}`,
+			title,
+			originalTitle:
+				tmdbShow.original_title || tmdbShow.original_name || title,
+			overview: tmdbShow.overview || "",
+			showType,
+			releaseYear: showType === "movie" ? year : undefined,
+			firstAirYear: showType === "series" ? year : undefined,
+			rating: Math.round((tmdbShow.vote_average || 0) * 10),
+			genres: this.fromTmdbGenres(tmdbShow.genre_ids || [], mediaType),
+			imageSet: {
+				verticalPoster: this.getPosterImages(tmdbShow.poster_path),
+				horizontalPoster: this.getBackdropImages(tmdbShow.backdrop_path),
+			},
+			streamingOptions: {},
+			netflixLink,
+			watchLinks: [
+				{
+					serviceId: "netflix",
+					serviceName: "Netflix",
+					type: "subscription",
+					link: netflixLink,
+				},
+			],
+			directors: [],
+			creators: [],
+			cast: [],
+		};
+	}
+
+	private getPosterImages(path?: string | null): VerticalImage {
+		const url = (size: string) =>
+			path ? `${IMAGE_BASE_URL}/${size}${path}` : "";
+
+		return {
+			w240: url("w342"),
+			w360: url("w342"),
+			w480: url("w500"),
+			w600: url("w780"),
+			w720: url("w780"),
+		};
+	}
+
+	private getBackdropImages(path?: string | null): HorizontalImage {
+		const url = (size: string) =>
+			path ? `${IMAGE_BASE_URL}/${size}${path}` : "";
+
+		return {
+			w360: url("w780"),
+			w480: url("w780"),
+			w720: url("w1280"),
+			w1080: url("w1280"),
+			w1440: url("original"),
+		};
+	}
+}
+
+// Singleton instance
+export const tmdbService = new TmdbService();
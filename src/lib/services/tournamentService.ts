@@ -0,0 +1,209 @@
+// NetPick - Tournaments
+// Swipe rounds in a room: everyone keeps or skips each candidate until one title is left
+
+import { RoomError } from "@/lib/types/netflix";
+import { randomPickerService } from "./randomPicker";
+import { roomService } from "./roomService";
+import { getGroupFit } from "./groupScoring";
+import { roomStore, Room, Tournament, TournamentVote } from "./roomStore";
+import { createRandom, createSeed } from "@/lib/utils/random";
+
+export const MIN_TOURNAMENT_SIZE = 2;
+export const MAX_TOURNAMENT_SIZE = 16;
+export const DEFAULT_TOURNAMENT_SIZE = parseInt(
+	process.env.TOURNAMENT_SIZE || "8"
+);
+
+export class TournamentService {
+	/**
+	 * Draw the candidates for the room and open round one, host only.
+	 * Replaces an earlier result or tournament.
+	 */
+	async start(
+		code: string,
+		userId: string,
+		size = DEFAULT_TOURNAMENT_SIZE
+	): Promise<Room> {
+		const room = await roomService.getRoom(code);
+		roomService.requireHost(room, userId, "start a tournament");
+
+		const seed = createSeed();
+		const picks = await randomPickerService.discoverForGroup(
+			{
+				country: room.country,
+				services: room.services,
+				members: room.participants.map((participant) => participant.preferences),
+				seed,
+			},
+			size
+		);
+
+		if (picks.shows.length < MIN_TOURNAMENT_SIZE) {
+			throw new RoomError(
+				"Not enough titles for a tournament, pick directly instead",
+				409
+			);
+		}
+
+		room.tournament = {
+			round: 1,
+			candidates: picks.shows,
+			votes: {},
+			rounds: [],
+			seed,
+			strategy: picks.strategy,
+			startedAt: Date.now(),
+		};
+		delete room.result;
+
+		await roomStore.save(room);
+		console.log(
+			`[Tournament] Room ${code} started with ${picks.shows.length} candidates`
+		);
+
+		return room;
+	}
+
+	/**
+	 * Record a participant's keep or skip. The round closes once everyone voted on every candidate.
+	 */
+	async vote(
+		code: string,
+		userId: string,
+		showId: string,
+		vote: TournamentVote
+	): Promise<Room> {
+		const room = await roomService.getRoom(code);
+		roomService.requireParticipant(room, userId);
+		const tournament = this.requireRunning(room);
+
+		if (!tournament.candidates.some((show) => show.id === showId)) {
+			throw new RoomError("Show is not in this round", 400);
+		}
+
+		tournament.votes[userId] = { ...tournament.votes[userId], [showId]: vote };
+
+		if (this.isRoundComplete(room, tournament)) {
+			this.closeRound(room, tournament);
+		}
+
+		await roomStore.save(room);
+		return room;
+	}
+
+	/**
+	 * Close the round with the votes so far, host only. Unblocks a round someone walked away from.
+	 */
+	async advance(code: string, userId: string): Promise<Room> {
+		const room = await roomService.getRoom(code);
+		roomService.requireHost(room, userId, "advance the tournament");
+
+		this.closeRound(room, this.requireRunning(room));
+
+		await roomStore.save(room);
+		return room;
+	}
+
+	/**
+	 * Drop the tournament, host only. A finished one's winner stays as the result.
+	 */
+	async cancel(code: string, userId: string): Promise<Room> {
+		const room = await roomService.getRoom(code);
+		roomService.requireHost(room, userId, "cancel the tournament");
+
+		delete room.tournament;
+
+		await roomStore.save(room);
+		return room;
+	}
+
+	/**
+	 * Whether every participant voted on every candidate of the round
+	 */
+	isRoundComplete(room: Room, tournament: Tournament): boolean {
+		return room.participants.every((participant) =>
+			tournament.candidates.every(
+				(show) => tournament.votes[participant.userId]?.[show.id]
+			)
+		);
+	}
+
+	/**
+	 * Rank the round by keeps and advance the top half. Ties go to fewer skips,
+	 * then the better group fit, then the higher rating, then a draw seeded per round.
+	 */
+	closeRound(room: Room, tournament: Tournament): void {
+		const members = room.participants.map((participant) => participant.preferences);
+		const random = createRandom(`${tournament.seed}-${tournament.round}`);
+		const ballots = Object.values(tournament.votes);
+
+		const ranked = tournament.candidates
+			.map((show) => ({
+				show,
+				keeps: ballots.filter((ballot) => ballot[show.id] === "keep").length,
+				skips: ballots.filter((ballot) => ballot[show.id] === "skip").length,
+				fit: getGroupFit(show, members).score,
+				draw: random(),
+			}))
+			.sort(
+				(a, b) =>
+					b.keeps - a.keeps ||
+					a.skips - b.skips ||
+					b.fit - a.fit ||
+					b.show.rating - a.show.rating ||
+					a.draw - b.draw
+			);
+		const advancing = Math.ceil(ranked.length / 2);
+
+		tournament.rounds.push({
+			round: tournament.round,
+			tallies: ranked.map((entry, i) => ({
+				showId: entry.show.id,
+				title: entry.show.title,
+				keeps: entry.keeps,
+				skips: entry.skips,
+				advanced: i < advancing,
+			})),
+		});
+		tournament.candidates = ranked.slice(0, advancing).map((entry) => entry.show);
+		tournament.votes = {};
+
+		if (tournament.candidates.length > 1) {
+			tournament.round++;
+			return;
+		}
+
+		// One left: the winner becomes the room's result
+		const winner = tournament.candidates[0];
+		const fit = getGroupFit(winner, members);
+
+		tournament.finishedAt = Date.now();
+		room.result = {
+			show: winner,
+			compromise: fit.satisfiedMembers < members.length,
+			satisfiedMembers: fit.satisfiedMembers,
+			participantCount: members.length,
+			groupScore: fit.score,
+			seed: tournament.seed,
+			strategy: tournament.strategy,
+			pickedAt: tournament.finishedAt,
+		};
+
+		console.log(
+			`[Tournament] Room ${room.code} won by ${winner.title} after ${tournament.round} rounds`
+		);
+	}
+
+	// Private methods
+
+	private requireRunning(room: Room): Tournament {
+		if (!room.tournament || room.tournament.finishedAt) {
+			throw new RoomError("No tournament is running", 409);
+		}
+
+		return room.tournament;
+	}
+}
+
+// Singleton instance
+export const tournamentService = new TournamentService();
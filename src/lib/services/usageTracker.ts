@@ -0,0 +1,158 @@
+// NetPick - Upstream Usage Tracker
+// Counts billed RapidAPI calls per endpoint, country and day, and enforces the daily budget
+
+export interface DailyUsage {
+	date: string; // YYYY-MM-DD (UTC)
+	total: number;
+	refused: number; // Calls not made because the budget was spent
+	byEndpoint: Record<string, number>;
+	byCountry: Record<string, number>;
+	byStatus: Record<string, number>;
+}
+
+export interface QuotaSnapshot {
+	limit: number | null;
+	remaining: number | null;
+	resetAt: string | null;
+	updatedAt: string | null;
+}
+
+export interface UsageStats {
+	today: DailyUsage;
+	history: DailyUsage[]; // Most recent first, today included
+	budget: {
+		daily: number | null; // null when unlimited
+		remaining: number | null;
+		exhausted: boolean;
+	};
+	quota: QuotaSnapshot;
+}
+
+const DAILY_BUDGET = parseInt(process.env.DAILY_REQUEST_BUDGET || "0"); // 0 = unlimited
+const HISTORY_DAYS = parseInt(process.env.USAGE_HISTORY_DAYS || "30");
+
+export class UsageTrackerService {
+	private days: Map<string, DailyUsage> = new Map(); // Insertion order = chronological
+	private quotaLimit: number | null = null;
+	private quotaRemaining: number | null = null;
+	private quotaResetAt = 0;
+	private quotaUpdatedAt = 0;
+
+	/**
+	 * Record one billed upstream call and capture RapidAPI's X-RateLimit headers
+	 */
+	record(endpoint: string, country: string | null, response: Response): void {
+		const usage = this.getDay();
+
+		usage.total++;
+		usage.byEndpoint[endpoint] = (usage.byEndpoint[endpoint] || 0) + 1;
+		if (country) {
+			usage.byCountry[country] = (usage.byCountry[country] || 0) + 1;
+		}
+		usage.byStatus[response.status] = (usage.byStatus[response.status] || 0) + 1;
+
+		this.captureQuota(response.headers);
+	}
+
+	/**
+	 * Whether another upstream call fits the daily budget and the remaining plan quota.
+	 * A refused call is counted so the stats show how much traffic the budget turned away.
+	 */
+	tryConsume(): boolean {
+		const usage = this.getDay();
+		const overBudget = DAILY_BUDGET > 0 && usage.total >= DAILY_BUDGET;
+		const quotaSpent =
+			this.quotaRemaining !== null &&
+			this.quotaRemaining <= 0 &&
+			Date.now() < this.quotaResetAt;
+
+		if (overBudget || quotaSpent) {
+			usage.refused++;
+			return false;
+		}
+
+		return true;
+	}
+
+	getStats(): UsageStats {
+		const today = this.getDay();
+		const remaining =
+			DAILY_BUDGET > 0 ? Math.max(DAILY_BUDGET - today.total, 0) : null;
+
+		return {
+			today,
+			history: Array.from(this.days.values()).reverse(),
+			budget: {
+				daily: DAILY_BUDGET > 0 ? DAILY_BUDGET : null,
+				remaining,
+				exhausted: remaining === 0,
+			},
+			quota: {
+				limit: this.quotaLimit,
+				remaining: this.quotaRemaining,
+				resetAt: this.quotaResetAt
+					? new Date(this.quotaResetAt).toISOString()
+					: null,
+				updatedAt: this.quotaUpdatedAt
+					? new Date(this.quotaUpdatedAt).toISOString()
+					: null,
+			},
+		};
+	}
+
+	// Private methods
+
+	private getDay(): DailyUsage {
+		const date = new Date().toISOString().slice(0, 10);
+		let usage = this.days.get(date);
+
+		if (!usage) {
+			usage = {
+				date,
+				total: 0,
+				refused: 0,
+				byEndpoint: {},
+				byCountry: {},
+				byStatus: {},
+			};
+			this.days.set(date, usage);
+
+			// Drop the oldest days
+			while (this.days.size > HISTORY_DAYS) {
+				const oldest = this.days.keys().next().value;
+				if (oldest === undefined) break;
+				this.days.delete(oldest);
+			}
+		}
+
+		return usage;
+	}
+
+	private captureQuota(headers: Headers): void {
+		const limit = headers.get("x-ratelimit-requests-limit");
+		const remaining = headers.get("x-ratelimit-requests-remaining");
+		const reset = headers.get("x-ratelimit-requests-reset"); // Seconds until reset
+
+		if (limit === null && remaining === null) {
+			return;
+		}
+
+		if (limit !== null && !isNaN(Number(limit))) {
+			this.quotaLimit = Number(limit);
+		}
+		if (remaining !== null && !isNaN(Number(remaining))) {
+			this.quotaRemaining = Number(remaining);
+		}
+		if (reset !== null && !isNaN(Number(reset))) {
+			this.quotaResetAt = Date.now() + Number(reset) * 1000;
+		}
+		this.quotaUpdatedAt = Date.now();
+
+		if (this.quotaRemaining !== null && this.quotaRemaining <= 0) {
+			console.warn("[UsageTracker] RapidAPI quota exhausted");
+		}
+	}
+}
+
+// Singleton instance
+export const usageTracker = new UsageTrackerService();
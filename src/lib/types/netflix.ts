@@ -16,9 +16,12 @@ export interface NetflixShow {
   runtime?: number;
   seasonCount?: number;
   episodeCount?: number;
+  episodeRuntime?: number; // Average episode minutes, when fetched at episode granularity
+  popularityRank?: number; // Position in the crawled catalog, 1 = most popular
   imageSet: ShowImageSet;
   streamingOptions: StreamingOptionsMap;
   netflixLink?: string;
+  watchLinks: ServiceLink[]; // One entry per service the show streams on in the country
   directors?: string[];
   creators?: string[];
   cast: string[];
@@ -61,7 +64,7 @@ export interface StreamingOption {
   type: 'free' | 'subscription' | 'buy' | 'rent' | 'addon';
   link: string;
   videoLink?: string;
-  quality: 'sd' | 'hd' | 'qhd' | 'uhd';
+  quality: VideoQuality;
   audios: Locale[];
   subtitles: Subtitle[];
   expiresSoon: boolean;
@@ -69,6 +72,25 @@ export interface StreamingOption {
   availableSince: number;
 }
 
+export type VideoQuality = 'sd' | 'hd' | 'qhd' | 'uhd';
+
+// Lowest first, so a minimum quality is an index comparison
+export const VIDEO_QUALITIES: VideoQuality[] = ['sd', 'hd', 'qhd', 'uhd'];
+
+// Normalized "Watch on X" link for one service
+export interface ServiceLink {
+  serviceId: string;
+  serviceName: string;
+  type: StreamingOption['type'];
+  link: string;
+  quality?: VideoQuality;
+  themeColorCode?: string;
+  expiresOn?: number; // Unix seconds, when the service announced a leaving date
+  availableSince?: number; // Unix seconds
+  audios?: Locale[];
+  subtitles?: Subtitle[];
+}
+
 export interface ServiceInfo {
   id: string;
   name: string;
@@ -99,6 +121,10 @@ export interface CachePool {
   lastUpdate: number;
   country: string;
   showType: 'movie' | 'series' | 'any';
+  services?: string[];
+  filters?: CatalogFilters;
+  seriesGranularity?: SeriesGranularity;
+  crawledShows?: number; // Distinct shows loaded so far, the pool is a random sample of them
 }
 
 export interface CacheMetadata {
@@ -110,20 +136,118 @@ export interface CacheMetadata {
   hitCount: number;
 }
 
-export interface RandomPickerConfig {
+// Crawler Types
+export interface CursorChain {
+  country: string;
+  showType: 'movie' | 'series' | 'any';
+  services?: string[];
+  filters?: CatalogFilters;
+  cursors: (string | null)[]; // cursors[i] fetches page i, null for the first page
+  nextCursor?: string; // Where the next crawl resumes
+  complete: boolean;
+  startedAt: number;
+  lastCrawl: number;
+}
+
+// Filters supported by the upstream /shows/search/filters endpoint
+export interface CatalogFilters {
+  genres?: string[];
+  genresRelation?: 'and' | 'or';
+  originalLanguage?: string; // ISO 639-1
+  yearMin?: number;
+  yearMax?: number;
+  ratingMin?: number; // 0-100
+  ratingMax?: number; // 0-100
+  keyword?: string;
+}
+
+export type SeriesGranularity = 'show' | 'season' | 'episode';
+
+export interface CatalogQuery {
+  country: string;
+  showType: 'movie' | 'series' | 'any';
+  services?: string[]; // Default: ['netflix']
+  filters?: CatalogFilters;
+  seriesGranularity?: SeriesGranularity; // Default: show, episode when episode runtimes are needed
+}
+
+// random: the whole catalog, leaving-soon: titles with an announced leaving date,
+// new-arrivals: titles recently added to a service
+export type DiscoverMode = 'random' | 'leaving-soon' | 'new-arrivals';
+
+export interface RandomPickerConfig extends CatalogFilters {
   country: string;
   showType?: 'movie' | 'series' | 'any';
+  services?: string[];
   excludeRecent?: boolean;
-  minRating?: number;
+  mode?: DiscoverMode; // Default: random
+  withinDays?: number; // leaving-soon window
+  sinceDays?: number; // new-arrivals lookback
+  seed?: string; // Replays a previous pick against the same catalog
+  strategy?: SelectionStrategyName; // Default: rating
+  minMinutes?: number; // Movie runtime, or one episode of a series
+  maxMinutes?: number;
+  audio?: string; // ISO 639-2 code spoken on one of the services
+  subtitle?: string; // ISO 639-2 code subtitled on one of the services
+  closedCaptions?: boolean; // Only closed-caption subtitle tracks count
+  minQuality?: VideoQuality; // Lowest video quality one of the services must stream
+}
+
+// How the picker weighs candidates, see selectionStrategies.ts
+export type SelectionStrategyName = 'uniform' | 'rating' | 'popularity' | 'quality' | 'gems';
+
+// Catalog changes, from the upstream /changes endpoint
+export type ChangeType = 'new' | 'removed' | 'updated' | 'expiring' | 'upcoming';
+
+export interface ShowChange {
+  changeType: ChangeType;
+  itemType: 'show' | 'season' | 'episode';
+  showId: string;
+  showType: 'movie' | 'series';
+  serviceId: string;
+  streamingOptionType: StreamingOption['type'];
+  season?: number;
+  episode?: number;
+  timestamp?: number; // Unix seconds, missing for future changes without a known date
+  link?: string;
 }
 
+// Where the picked show came from
+export type CatalogProviderName = 'streaming-availability' | 'tmdb';
+
 export interface DiscoverResponse {
   show: NetflixShow;
+  shows: NetflixShow[]; // Every distinct pick when more than one was asked for, show first
   country: string;
   fromCache: boolean;
+  provider: CatalogProviderName;
+  seed: string; // Pass back as RandomPickerConfig.seed to get the same pick
+  strategy: SelectionStrategyName;
   responseTime: number;
 }
 
+// One person's wishes in a group pick
+export interface GroupMemberPreferences {
+  showType?: 'movie' | 'series' | 'any'; // Default: any
+  genres?: string[]; // Any of these
+  maxMinutes?: number; // Movie runtime, or one episode of a series
+  vetoedGenres?: string[]; // Never these
+}
+
+export interface GroupPickConfig {
+  country: string;
+  services?: string[];
+  members: GroupMemberPreferences[];
+  seed?: string;
+  strategy?: SelectionStrategyName; // Default: rating
+}
+
+export interface GroupDiscoverResponse extends DiscoverResponse {
+  compromise: boolean; // The first pick does not suit everyone, too few titles did
+  satisfiedMembers: number;
+  groupScore: number; // 0-1, average share of each member's wishes the show meets
+}
+
 // API Response Types
 export interface StreamingAvailabilitySearchResponse {
   shows: NetflixShow[];
@@ -138,7 +262,8 @@ export interface StreamingAvailabilityResponse {
 }
 
 // Countries
-export const SUPPORTED_COUNTRIES = {
+// Offline fallback, the live list comes from the upstream /countries endpoint
+export const FALLBACK_COUNTRIES = {
   us: 'United States',
   fr: 'France',
   ca: 'Canada',
@@ -146,7 +271,67 @@ export const SUPPORTED_COUNTRIES = {
   de: 'Germany'
 } as const;
 
-export type SupportedCountry = keyof typeof SUPPORTED_COUNTRIES;
+// ISO 3166-1 alpha-2 code, validated against the country catalog
+export type SupportedCountry = string;
+
+export interface CountryInfo {
+  code: string;
+  name: string;
+  flag: string;
+  services: CountryService[];
+}
+
+export interface CountryService {
+  id: string;
+  name: string;
+  homePage?: string;
+  themeColorCode?: string;
+}
+
+// Streaming services
+export const SUPPORTED_SERVICES = {
+  netflix: 'Netflix',
+  prime: 'Prime Video',
+  disney: 'Disney+',
+  hbo: 'Max',
+  apple: 'Apple TV',
+  hulu: 'Hulu',
+  paramount: 'Paramount+',
+  peacock: 'Peacock'
+} as const;
+
+export type SupportedService = keyof typeof SUPPORTED_SERVICES;
+
+export const DEFAULT_SERVICES: SupportedService[] = ['netflix'];
+
+// Show ids, IMDb ids (tt0120338) and TMDB ids (movie/597, tv/1396)
+export const SHOW_ID_PATTERN = /^(\d+|tt\d+|(movie|tv)\/\d+)$/;
+
+// Genres
+// Offline fallback, the live list comes from the upstream /genres endpoint
+export const FALLBACK_GENRES: Genre[] = [
+  { id: 'action', name: 'Action' },
+  { id: 'adventure', name: 'Adventure' },
+  { id: 'animation', name: 'Animation' },
+  { id: 'comedy', name: 'Comedy' },
+  { id: 'crime', name: 'Crime' },
+  { id: 'documentary', name: 'Documentary' },
+  { id: 'drama', name: 'Drama' },
+  { id: 'family', name: 'Family' },
+  { id: 'fantasy', name: 'Fantasy' },
+  { id: 'history', name: 'History' },
+  { id: 'horror', name: 'Horror' },
+  { id: 'music', name: 'Music' },
+  { id: 'mystery', name: 'Mystery' },
+  { id: 'news', name: 'News' },
+  { id: 'reality', name: 'Reality' },
+  { id: 'romance', name: 'Romance' },
+  { id: 'scifi', name: 'Science Fiction' },
+  { id: 'talk', name: 'Talk Show' },
+  { id: 'thriller', name: 'Thriller' },
+  { id: 'war', name: 'War' },
+  { id: 'western', name: 'Western' }
+];
 
 // Error Types
 export interface NetPickError {
@@ -167,4 +352,11 @@ export class APIError extends Error {
     super(message);
     this.name = 'APIError';
   }
+}
+
+export class RoomError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'RoomError';
+  }
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+// NetPick - Admin Auth
+// Bearer-token checks for operator-only routes
+
+import { timingSafeEqual } from "crypto";
+import { isPlaceholderSecret } from "./session";
+
+/**
+ * Whether the request carries `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ * Always false when no token is configured, or in production an example one,
+ * so admin routes stay closed by default.
+ */
+export function isAdminRequest(request: Request): boolean {
+	return hasBearerToken(request, process.env.ADMIN_API_TOKEN);
+}
+
+/**
+ * Whether the request comes from the scheduler, which sends `Authorization: Bearer <CRON_SECRET>`
+ */
+export function isCronRequest(request: Request): boolean {
+	return hasBearerToken(request, process.env.CRON_SECRET);
+}
+
+function hasBearerToken(request: Request, token: string | undefined): boolean {
+	const header = request.headers.get("authorization");
+
+	if (!token || !header?.startsWith("Bearer ")) {
+		return false;
+	}
+
+	if (isPlaceholderSecret(token) && process.env.NODE_ENV === "production") {
+		console.warn("[AdminAuth] Refusing an example token in production");
+		return false;
+	}
+
+	const given = Buffer.from(header.slice("Bearer ".length));
+	const expected = Buffer.from(token);
+
+	return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,40 @@
+// NetPick - Catalog Filters
+// Local check of the search filters, shared by the cache pools and the picker
+
+import { NetflixShow, CatalogFilters } from "@/lib/types/netflix";
+
+/**
+ * Whether a show meets the genre, rating and year filters. A show without a year
+ * never meets a year range, as in the upstream search. Language and keyword are
+ * upstream-only and not checked here.
+ */
+export function matchesFilters(
+	show: NetflixShow,
+	filters: CatalogFilters
+): boolean {
+	const year = show.releaseYear || show.firstAirYear;
+	const genreIds = show.genres.map((genre) => genre.id);
+
+	if (filters.genres?.length) {
+		const matches =
+			filters.genresRelation === "or"
+				? filters.genres.some((genre) => genreIds.includes(genre))
+				: filters.genres.every((genre) => genreIds.includes(genre));
+		if (!matches) return false;
+	}
+
+	if (filters.ratingMin !== undefined && show.rating < filters.ratingMin) {
+		return false;
+	}
+	if (filters.ratingMax !== undefined && show.rating > filters.ratingMax) {
+		return false;
+	}
+	if (filters.yearMin !== undefined && (!year || year < filters.yearMin)) {
+		return false;
+	}
+	if (filters.yearMax !== undefined && (!year || year > filters.yearMax)) {
+		return false;
+	}
+
+	return true;
+}
@@ -0,0 +1,27 @@
+// NetPick - Client IP
+// Best-effort caller address behind Vercel and Cloudflare proxies
+
+/**
+ * The first address the proxies saw, or "unknown"
+ */
+export function getClientIP(request: Request): string {
+	// Try various headers to get the real client IP
+	const forwarded = request.headers.get("x-forwarded-for");
+	const realIP = request.headers.get("x-real-ip");
+	const cfConnectingIP = request.headers.get("cf-connecting-ip");
+
+	if (forwarded) {
+		return forwarded.split(",")[0].trim();
+	}
+
+	if (realIP) {
+		return realIP;
+	}
+
+	if (cfConnectingIP) {
+		return cfConnectingIP;
+	}
+
+	// Fallback to a default
+	return "unknown";
+}
@@ -0,0 +1,93 @@
+// NetPick - JSON Files
+// Persistence helpers for the file-backed stores
+
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Parse a JSON file, or null when it does not exist yet
+ */
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+	try {
+		return JSON.parse(await fs.readFile(filePath, "utf8")) as T;
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return null;
+		}
+
+		throw error;
+	}
+}
+
+/**
+ * Write to a temp file and rename, so a crash never leaves half a file
+ */
+export async function writeJsonFile(
+	filePath: string,
+	contents: string
+): Promise<void> {
+	const tempPath = `${filePath}.tmp`;
+
+	await fs.mkdir(path.dirname(filePath), { recursive: true });
+	await fs.writeFile(tempPath, contents, "utf8");
+	await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Write-through persistence for a store's data: read once, rewritten on every change.
+ * Suits a single long-running server; serverless instances each see their own disk.
+ */
+export class JsonFileStore<T extends Record<string, unknown>> {
+	private loaded: Promise<void> | null = null;
+	private writes: Promise<void> = Promise.resolve();
+
+	constructor(
+		private readonly filePath: string,
+		private readonly logName: string // Log prefix, e.g. "RoomStore"
+	) {}
+
+	/**
+	 * Hand the file's contents to `apply` on the first call, {} when it is missing
+	 * or unreadable. Later calls wait for that first read and apply nothing.
+	 */
+	load(apply: (data: T) => void): Promise<void> {
+		if (!this.loaded) {
+			this.loaded = this.read(apply);
+		}
+
+		return this.loaded;
+	}
+
+	/**
+	 * Write a snapshot of the data taken now
+	 */
+	save(data: T): Promise<void> {
+		// Serialize writes so an older snapshot never lands after a newer one
+		const snapshot = JSON.stringify(data);
+		this.writes = this.writes
+			.then(() => writeJsonFile(this.filePath, snapshot))
+			.catch((error) => {
+				console.error(`[${this.logName}] Failed to write ${this.filePath}:`, error);
+			});
+
+		return this.writes;
+	}
+
+	// Private methods
+
+	private async read(apply: (data: T) => void): Promise<void> {
+		try {
+			const data = (await readJsonFile<T>(this.filePath)) || ({} as T);
+			apply(data);
+
+			console.log(
+				`[${this.logName}] Loaded ${Object.keys(data).length} entries from ${
+					this.filePath
+				}`
+			);
+		} catch (error) {
+			console.error(`[${this.logName}] Failed to read ${this.filePath}:`, error);
+			apply({} as T);
+		}
+	}
+}
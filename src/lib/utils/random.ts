@@ -0,0 +1,51 @@
+// NetPick - Seeded Random
+// Deterministic PRNG so a pick can be replayed from its seed
+
+export type RandomSource = () => number; // Uniform in [0, 1), like Math.random
+
+const SEED_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Whether a client-supplied seed is usable: 1-64 URL-safe characters
+ */
+export function isValidSeed(seed: string): boolean {
+	return SEED_PATTERN.test(seed);
+}
+
+/**
+ * A fresh seed for picks that did not ask for one, so every pick can be replayed
+ */
+export function createSeed(): string {
+	return Math.floor(Math.random() * 2 ** 32)
+		.toString(36)
+		.padStart(7, "0");
+}
+
+/**
+ * Mulberry32 seeded from a string hash: the same seed always yields the same sequence
+ */
+export function createRandom(seed: string): RandomSource {
+	let state = hashSeed(seed);
+
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * FNV-1a, folds the seed string into 32 bits of PRNG state
+ */
+function hashSeed(seed: string): number {
+	let hash = 0x811c9dc5;
+
+	for (let i = 0; i < seed.length; i++) {
+		hash ^= seed.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+
+	return hash >>> 0;
+}
@@ -0,0 +1,49 @@
+// NetPick - Rate Limiting
+// Fixed-window request counts per client and scope, in memory per instance
+
+interface WindowCount {
+	count: number;
+	resetTime: number;
+}
+
+const RATE_LIMIT = parseInt(process.env.RATE_LIMIT_PER_USER || "100");
+const RATE_WINDOW = parseInt(process.env.RATE_LIMIT_WINDOW_MS || "60000");
+
+const requestCounts = new Map<string, WindowCount>();
+
+/**
+ * Count a request against the client's limit for a scope (e.g. "discover").
+ * Returns false once the client is over it for the current window.
+ */
+export function checkRateLimit(
+	scope: string,
+	key: string,
+	limit = RATE_LIMIT
+): boolean {
+	const now = Date.now();
+	const countKey = `${scope}:${key}`;
+	const clientData = requestCounts.get(countKey);
+
+	// First request, or the window has passed
+	if (!clientData || now > clientData.resetTime) {
+		requestCounts.set(countKey, { count: 1, resetTime: now + RATE_WINDOW });
+		return true;
+	}
+
+	if (clientData.count < limit) {
+		clientData.count++;
+		return true;
+	}
+
+	return false;
+}
+
+// Periodic cleanup of rate limit data
+setInterval(() => {
+	const now = Date.now();
+	for (const [key, data] of requestCounts.entries()) {
+		if (now > data.resetTime + RATE_WINDOW) {
+			requestCounts.delete(key);
+		}
+	}
+}, RATE_WINDOW);
@@ -0,0 +1,57 @@
+// NetPick - Room Payload
+// Public JSON shape of a room, as seen by one session: user ids stay on the server
+
+import { Room } from "@/lib/services/roomStore";
+import { toShowPayload } from "@/lib/utils/showPayload";
+
+export function toRoomPayload(room: Room, userId: string) {
+	const { tournament } = room;
+
+	return {
+		code: room.code,
+		country: room.country,
+		services: room.services,
+		isHost: room.hostId === userId,
+		isParticipant: room.participants.some(
+			(participant) => participant.userId === userId
+		),
+		participants: room.participants.map((participant) => ({
+			id: participant.id,
+			name: participant.name,
+			isHost: participant.userId === room.hostId,
+			isYou: participant.userId === userId,
+			preferences: participant.preferences,
+			joinedAt: new Date(participant.joinedAt).toISOString(),
+		})),
+		result: room.result
+			? {
+					show: toShowPayload(room.result.show),
+					compromise: room.result.compromise,
+					satisfiedMembers: room.result.satisfiedMembers,
+					participantCount: room.result.participantCount,
+					groupScore: room.result.groupScore,
+					seed: room.result.seed,
+					strategy: room.result.strategy,
+					pickedAt: new Date(room.result.pickedAt).toISOString(),
+			  }
+			: null,
+		tournament: tournament
+			? {
+					round: tournament.round,
+					finished: !!tournament.finishedAt,
+					candidates: tournament.candidates.map(toShowPayload),
+					yourVotes: tournament.votes[userId] || {},
+					// Participants who voted on every candidate this round
+					votersDone: room.participants.filter((participant) =>
+						tournament.candidates.every(
+							(show) => tournament.votes[participant.userId]?.[show.id]
+						)
+					).length,
+					rounds: tournament.rounds,
+					startedAt: new Date(tournament.startedAt).toISOString(),
+			  }
+			: null,
+		createdAt: new Date(room.createdAt).toISOString(),
+		updatedAt: new Date(room.updatedAt).toISOString(),
+	};
+}
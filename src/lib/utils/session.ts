@@ -0,0 +1,146 @@
+// NetPick - Anonymous Sessions
+// Signed session cookie issued by the middleware, read by the API routes
+// Runs in the edge middleware too, so only Web APIs here
+
+import { getClientIP } from "./clientIP";
+
+export const SESSION_COOKIE = "netpick_session";
+// Set by the middleware on every request it forwards, client values are overwritten
+export const SESSION_HEADER = "x-netpick-session";
+export const SESSION_NEW_HEADER = "x-netpick-session-new";
+
+export const SESSION_MAX_AGE_SECONDS =
+	parseInt(process.env.SESSION_MAX_AGE_DAYS || "365") * 24 * 60 * 60;
+
+// Only suits local development: in production every request fails without SESSION_SECRET
+const DEV_SECRET = "netpick-dev-session-secret";
+// Example values from the docs, as public as the development secret
+const PLACEHOLDER_SECRETS = ["change_me", "long_random_string"];
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+function getSigningKey(): Promise<CryptoKey> {
+	if (!signingKey) {
+		const secret = process.env.SESSION_SECRET || DEV_SECRET;
+
+		// The development secret is public, anyone could forge a session with it
+		if (
+			(secret === DEV_SECRET || isPlaceholderSecret(secret)) &&
+			process.env.NODE_ENV === "production"
+		) {
+			throw new Error(
+				"[Session] SESSION_SECRET must be set to a random value in production"
+			);
+		}
+
+		if (secret === DEV_SECRET) {
+			console.warn(
+				"[Session] SESSION_SECRET is not set, using the development secret"
+			);
+		}
+
+		signingKey = crypto.subtle.importKey(
+			"raw",
+			new TextEncoder().encode(secret),
+			{ name: "HMAC", hash: "SHA-256" },
+			false,
+			["sign"]
+		);
+	}
+
+	return signingKey;
+}
+
+/**
+ * Whether a secret is one of the example values from the docs
+ */
+export function isPlaceholderSecret(secret: string): boolean {
+	return PLACEHOLDER_SECRETS.includes(secret);
+}
+
+async function sign(sessionId: string): Promise<string> {
+	const signature = await crypto.subtle.sign(
+		"HMAC",
+		await getSigningKey(),
+		new TextEncoder().encode(sessionId)
+	);
+
+	return btoa(String.fromCharCode(...new Uint8Array(signature)))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+/**
+ * Constant-time comparison, so a forged signature cannot be guessed byte by byte
+ */
+function safeEqual(a: string, b: string): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) {
+		diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+
+	return diff === 0;
+}
+
+/**
+ * A new session: its id and the signed cookie value
+ */
+export async function createSession(): Promise<{ id: string; cookie: string }> {
+	const id = crypto.randomUUID();
+	return { id, cookie: `${id}.${await sign(id)}` };
+}
+
+/**
+ * The session id in a cookie value, or null when it is missing or was tampered with
+ */
+export async function verifySession(
+	cookie: string | undefined
+): Promise<string | null> {
+	const [id, signature] = cookie?.split(".") ?? [];
+
+	if (!id || !signature) {
+		return null;
+	}
+
+	return safeEqual(signature, await sign(id)) ? id : null;
+}
+
+/**
+ * Whether the userId query parameter may stand in for the session (DEBUG_MODE=true)
+ */
+export function isDebugMode(): boolean {
+	return process.env.DEBUG_MODE === "true";
+}
+
+/**
+ * Who the request is for: the session, or the userId parameter in debug mode.
+ * Falls back to the client IP if the middleware did not run.
+ */
+export function getUserId(request: Request): string {
+	const debugUserId = new URL(request.url).searchParams.get("userId");
+
+	if (debugUserId && isDebugMode()) {
+		return debugUserId;
+	}
+
+	return request.headers.get(SESSION_HEADER) || getClientIP(request);
+}
+
+/**
+ * Rate limit key: the session, unless it was issued just now.
+ * Clients that drop cookies get a new session on every request, so they are limited by IP.
+ */
+export function getRateLimitKey(request: Request): string {
+	const sessionId = request.headers.get(SESSION_HEADER);
+
+	if (sessionId && !request.headers.get(SESSION_NEW_HEADER)) {
+		return `session:${sessionId}`;
+	}
+
+	return `ip:${getClientIP(request)}`;
+}
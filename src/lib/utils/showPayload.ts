@@ -0,0 +1,42 @@
+// NetPick - Show Payload
+// Public JSON shape of a show, shared by every API route that returns shows
+
+import { NetflixShow } from "@/lib/types/netflix";
+
+export function toShowPayload(show: NetflixShow) {
+	return {
+		id: show.id,
+		title: show.title,
+		originalTitle: show.originalTitle,
+		overview: show.overview,
+		showType: show.showType,
+		releaseYear: show.releaseYear,
+		firstAirYear: show.firstAirYear,
+		lastAirYear: show.lastAirYear,
+		rating: show.rating,
+		genres: show.genres,
+		runtime: show.runtime,
+		seasonCount: show.seasonCount,
+		episodeCount: show.episodeCount,
+		episodeRuntime: show.episodeRuntime,
+		cast: show.cast?.slice(0, 5), // Limit cast for performance
+		directors: show.directors,
+		creators: show.creators,
+		images: {
+			poster:
+				show.imageSet.verticalPoster?.w480 ||
+				show.imageSet.verticalPoster?.w360,
+			backdrop:
+				show.imageSet.horizontalPoster?.w720 ||
+				show.imageSet.horizontalPoster?.w480,
+			posterSizes: show.imageSet.verticalPoster,
+			backdropSizes: show.imageSet.horizontalPoster,
+		},
+		netflixLink: show.netflixLink,
+		watchLinks: show.watchLinks,
+		tmdbId: show.tmdbId,
+		imdbId: show.imdbId,
+	};
+}
+
+export type ShowPayload = ReturnType<typeof toShowPayload>;
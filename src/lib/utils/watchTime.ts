@@ -0,0 +1,55 @@
+// NetPick - Watch Time
+// How long one sitting with a show takes: the movie, or one episode of a series
+
+import { NetflixShow } from "@/lib/types/netflix";
+
+// Typical episode lengths when the upstream has no runtime for the series
+const SITCOM_EPISODE_MINUTES = 25;
+const DRAMA_EPISODE_MINUTES = 50;
+// Genres whose episodes usually fill a half-hour slot
+const HALF_HOUR_GENRES = ["comedy", "animation", "reality", "family"];
+
+/**
+ * Minutes for one episode: measured when episode runtimes were fetched,
+ * else estimated from the genres. Dramedies count as dramas.
+ */
+export function getEpisodeMinutes(show: NetflixShow): number {
+	if (show.episodeRuntime) {
+		return show.episodeRuntime;
+	}
+
+	const genreIds = show.genres.map((genre) => genre.id);
+	const halfHour =
+		genreIds.some((genre) => HALF_HOUR_GENRES.includes(genre)) &&
+		!genreIds.includes("drama");
+
+	return halfHour ? SITCOM_EPISODE_MINUTES : DRAMA_EPISODE_MINUTES;
+}
+
+/**
+ * Minutes one sitting takes, or undefined for a movie without a runtime
+ */
+export function getWatchMinutes(show: NetflixShow): number | undefined {
+	return show.showType === "movie" ? show.runtime : getEpisodeMinutes(show);
+}
+
+/**
+ * Whether one sitting fits between the bounds; unknown runtimes never fit a bound
+ */
+export function fitsWatchTime(
+	show: NetflixShow,
+	minMinutes?: number,
+	maxMinutes?: number
+): boolean {
+	if (minMinutes === undefined && maxMinutes === undefined) {
+		return true;
+	}
+
+	const minutes = getWatchMinutes(show);
+
+	return (
+		minutes !== undefined &&
+		(minMinutes === undefined || minutes >= minMinutes) &&
+		(maxMinutes === undefined || minutes <= maxMinutes)
+	);
+}
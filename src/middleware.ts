@@ -0,0 +1,50 @@
+// NetPick - Middleware
+// Issues the anonymous session cookie and hands the verified session id to the API routes
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+	SESSION_COOKIE,
+	SESSION_HEADER,
+	SESSION_NEW_HEADER,
+	SESSION_MAX_AGE_SECONDS,
+	createSession,
+	verifySession,
+} from "@/lib/utils/session";
+
+export async function middleware(request: NextRequest) {
+	const existing = await verifySession(
+		request.cookies.get(SESSION_COOKIE)?.value
+	);
+	const session = existing ? null : await createSession();
+
+	// Never trust session headers sent by the client
+	const headers = new Headers(request.headers);
+	headers.set(SESSION_HEADER, existing ?? session!.id);
+	if (session) {
+		headers.set(SESSION_NEW_HEADER, "1");
+	} else {
+		headers.delete(SESSION_NEW_HEADER);
+	}
+
+	const response = NextResponse.next({ request: { headers } });
+
+	if (session) {
+		response.cookies.set(SESSION_COOKIE, session.cookie, {
+			httpOnly: true,
+			secure: process.env.NODE_ENV === "production",
+			sameSite: "lax",
+			path: "/",
+			maxAge: SESSION_MAX_AGE_SECONDS,
+		});
+	}
+
+	return response;
+}
+
+export const config = {
+	// Pages and API routes, not static files. The session-independent routes are
+	// publicly cached, and a shared cache must never store a new visitor's cookie.
+	matcher: [
+		"/((?!_next/static|_next/image|favicon.ico|api/(?:search|shows|countries|genres)|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)",
+	],
+};